@@ -3,6 +3,7 @@ import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { ThemeProvider } from "@/components/theme-provider";
+import { AuthProvider } from "@/hooks/use-auth";
 import NotFound from "@/pages/not-found";
 import QuizApp from "@/pages/Quiz";
 import { useEffect, useState } from "react";
@@ -254,9 +255,11 @@ function App() {
     return (
       <ThemeProvider defaultTheme="light" storageKey="bmv-quiz-theme">
         <QueryClientProvider client={queryClient}>
-          <DebugBanner />
-          <Router />
-          <Toaster />
+          <AuthProvider>
+            <DebugBanner />
+            <Router />
+            <Toaster />
+          </AuthProvider>
         </QueryClientProvider>
       </ThemeProvider>
     );
@@ -0,0 +1,133 @@
+import { useState } from "react"
+import { LogIn, LogOut, User as UserIcon } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { useToast } from "@/hooks/use-toast"
+import { useAuth } from "@/hooks/use-auth"
+
+type Mode = "login" | "register"
+
+// apiRequest errors read "<status>: <body>"; show the server's message where there is one
+function describeError(error: unknown): string {
+  const text = error instanceof Error ? error.message : String(error)
+  const body = text.replace(/^\d+: /, "")
+  try {
+    return JSON.parse(body).message || body
+  } catch {
+    return body
+  }
+}
+
+// Log in, register or log out; hidden where the server has no accounts (the device is then single-user)
+export function AccountMenu() {
+  const { status, user, login, register, logout, isPending } = useAuth()
+  const { toast } = useToast()
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [mode, setMode] = useState<Mode>("login")
+  const [username, setUsername] = useState("")
+  const [password, setPassword] = useState("")
+
+  if (status === "loading" || status === "unavailable") return null
+
+  const handleSubmit = async () => {
+    try {
+      await (mode === "login" ? login : register)({ username: username.trim(), password })
+      setDialogOpen(false)
+      setPassword("")
+      toast({
+        title: mode === "login" ? "Logged In" : "Account Created",
+        description: `Signed in as ${username.trim()}.`,
+      })
+    } catch (error) {
+      toast({
+        title: mode === "login" ? "Login Failed" : "Registration Failed",
+        description: describeError(error),
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleLogout = async () => {
+    try {
+      await logout()
+    } catch (error) {
+      toast({
+        title: "Logout Failed",
+        description: describeError(error),
+        variant: "destructive",
+      })
+    }
+  }
+
+  if (status === "authenticated" && user) {
+    return (
+      <div className="flex items-center gap-2">
+        <span className="flex items-center gap-1 text-sm">
+          <UserIcon className="h-4 w-4" />
+          {user.username}
+        </span>
+        {user.role === "admin" && <Badge variant="secondary">Admin</Badge>}
+        <Button variant="ghost" size="sm" onClick={handleLogout} disabled={isPending} title="Log out">
+          <LogOut className="h-4 w-4" />
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <>
+      <Button variant="outline" size="sm" onClick={() => setDialogOpen(true)}>
+        <LogIn className="h-4 w-4 mr-2" />
+        Log in
+      </Button>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{mode === "login" ? "Log In" : "Create Account"}</DialogTitle>
+            <DialogDescription>
+              Quizzes you create belong to your account; their owners decide who else can edit them.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="account-username">Username</Label>
+              <Input
+                id="account-username"
+                autoComplete="username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="account-password">Password</Label>
+              <Input
+                id="account-password"
+                type="password"
+                autoComplete={mode === "login" ? "current-password" : "new-password"}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") {
+                    handleSubmit()
+                  }
+                }}
+              />
+            </div>
+          </div>
+          <DialogFooter className="sm:justify-between">
+            <Button variant="link" className="px-0" onClick={() => setMode(mode === "login" ? "register" : "login")}>
+              {mode === "login" ? "Create an account" : "I already have an account"}
+            </Button>
+            <Button onClick={handleSubmit} disabled={isPending || !username.trim() || !password}>
+              {mode === "login" ? "Log In" : "Register"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
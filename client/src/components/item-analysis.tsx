@@ -0,0 +1,150 @@
+import { useMemo, useState } from "react"
+import { BarChart3, ChevronDown, Pencil } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible"
+import { Label } from "@/components/ui/label"
+import { analyzeItems, MIN_RESPONSES, type ItemFlag } from "@/lib/item-analysis"
+import type { Question, QuizAttempt } from "@shared/schema"
+import { cn } from "@/lib/utils"
+
+type ItemAnalysisProps = {
+  quizId: string  // Keeps checkbox ids unique when several quizzes are listed
+  questions: Question[]
+  history: QuizAttempt[]
+  onEditQuestion?: (questionIndex: number) => void
+}
+
+const FLAG_LABELS: Record<ItemFlag, { label: string, description: string }> = {
+  "too-hard": { label: "Very hard", description: "Fewer than 20% get it right - check the answer key" },
+  "too-easy": { label: "Very easy", description: "Almost everyone gets it right, so it tells learners apart poorly" },
+  "negative-discrimination": { label: "Negative discrimination", description: "Weaker learners do better than stronger ones - often ambiguous or mis-keyed" },
+  "low-discrimination": { label: "Low discrimination", description: "Strong and weak learners do about the same" },
+  "distractor-beats-key": { label: "Distractor beats key", description: "A wrong option is picked more often than the correct one" },
+}
+
+function formatSeconds(seconds: number): string {
+  const rounded = Math.round(seconds)
+  return `${Math.floor(rounded / 60)}:${(rounded % 60).toString().padStart(2, "0")}`
+}
+
+// Per-question statistics for quiz authors: difficulty, discrimination, option choices and time,
+// with problem items flagged and linked to the editor
+export function ItemAnalysis({ quizId, questions, history, onEditQuestion }: ItemAnalysisProps) {
+  const [flaggedOnly, setFlaggedOnly] = useState(false)
+  const stats = useMemo(() => analyzeItems(questions, history), [questions, history])
+  const flaggedCount = stats.filter((item) => item.flags.length > 0).length
+  const shown = flaggedOnly ? stats.filter((item) => item.flags.length > 0) : stats
+
+  return (
+    <Collapsible className="space-y-2">
+      <CollapsibleTrigger asChild>
+        <Button variant="outline" size="sm" className="group">
+          <BarChart3 className="h-4 w-4 mr-2" />
+          Item Analysis
+          {flaggedCount > 0 && <Badge variant="destructive" className="ml-2 px-1.5">{flaggedCount} flagged</Badge>}
+          <ChevronDown className="h-4 w-4 ml-2 transition-transform group-data-[state=open]:rotate-180" />
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-2">
+        <div className="flex items-center justify-between">
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            From exam attempts only. Items are flagged once they have {MIN_RESPONSES} or more responses.
+          </p>
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id={`item-analysis-flagged-${quizId}`}
+              checked={flaggedOnly}
+              onCheckedChange={(checked) => setFlaggedOnly(checked === true)}
+            />
+            <Label htmlFor={`item-analysis-flagged-${quizId}`} className="text-xs">Flagged only</Label>
+          </div>
+        </div>
+        <div className="rounded-md border overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="bg-gray-50 dark:bg-gray-800 border-b">
+                <th className="px-3 py-2 text-left">#</th>
+                <th className="px-3 py-2 text-left">Question</th>
+                <th className="px-3 py-2 text-center" title="Responses (unanswered)">Responses</th>
+                <th className="px-3 py-2 text-center" title="Share of the available credit earned (p-value)">Difficulty</th>
+                <th className="px-3 py-2 text-center" title="Top 27% minus bottom 27% of scorers">Discrimination</th>
+                <th className="px-3 py-2 text-center">Avg Time</th>
+                <th className="px-3 py-2 text-left">Options Chosen</th>
+                <th className="px-3 py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {shown.map((item) => {
+                const question = questions[item.questionIndex]
+                return (
+                  <tr key={question.id ?? item.questionIndex} className="border-b last:border-0 align-top">
+                    <td className="px-3 py-2">{item.questionIndex + 1}</td>
+                    <td className="px-3 py-2 max-w-[16rem]">
+                      <p className="line-clamp-2">{question.question}</p>
+                      {item.flags.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-1">
+                          {item.flags.map((flag) => (
+                            <Badge key={flag} variant="outline" className="text-xs border-red-300 text-red-700 dark:text-red-400" title={FLAG_LABELS[flag].description}>
+                              {FLAG_LABELS[flag].label}
+                            </Badge>
+                          ))}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-center">
+                      {item.responses}
+                      {item.unanswered > 0 && <span className="text-xs text-gray-500"> ({item.unanswered})</span>}
+                    </td>
+                    <td className="px-3 py-2 text-center">{item.responses > 0 ? `${Math.round(item.difficulty * 100)}%` : "-"}</td>
+                    <td className={cn("px-3 py-2 text-center", item.discrimination !== undefined && item.discrimination < 0 && "text-red-600")}>
+                      {item.discrimination !== undefined ? item.discrimination.toFixed(2) : "-"}
+                    </td>
+                    <td className="px-3 py-2 text-center font-mono">
+                      {item.averageTime !== undefined ? formatSeconds(item.averageTime) : "-"}
+                    </td>
+                    <td className="px-3 py-2 min-w-[10rem]">
+                      {item.distractors.length > 0 ? (
+                        <div className="space-y-1">
+                          {item.distractors.map((distractor, i) => (
+                            <div key={i} className="flex items-center gap-2 text-xs" title={distractor.option}>
+                              <span className={cn("w-4 shrink-0", distractor.isCorrect && "font-bold text-green-700 dark:text-green-400")}>
+                                {String.fromCharCode(65 + i)}
+                              </span>
+                              <div className="flex-1 bg-gray-200 dark:bg-gray-600 rounded-full h-2">
+                                <div
+                                  className={cn("h-2 rounded-full", distractor.isCorrect ? "bg-green-500" : "bg-gray-400")}
+                                  style={{ width: `${distractor.fraction * 100}%` }}
+                                />
+                              </div>
+                              <span className="w-8 text-right">{distractor.count}</span>
+                            </div>
+                          ))}
+                        </div>
+                      ) : (
+                        <span className="text-xs text-gray-400">-</span>
+                      )}
+                    </td>
+                    <td className="px-3 py-2">
+                      {onEditQuestion && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => onEditQuestion(item.questionIndex)}
+                          title="Edit this question"
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  )
+}
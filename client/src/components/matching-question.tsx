@@ -0,0 +1,80 @@
+import { useState } from "react"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { cn } from "@/lib/utils"
+import { RichText } from "@/components/rich-text"
+
+type MatchingQuestionProps = {
+  leftItems: string[]
+  choices: string[]
+  value: string[]
+  onChange: (value: string[]) => void
+  disabled?: boolean
+}
+
+// "Match column A to column B" answer input
+// Each left item gets a dropdown of right items; right items can also be dragged onto a row
+export function MatchingQuestion({ leftItems, choices, value, onChange, disabled = false }: MatchingQuestionProps) {
+  const [draggedChoice, setDraggedChoice] = useState<string | null>(null)
+
+  const setMatch = (row: number, choice: string) => {
+    if (disabled) return
+    const matches = leftItems.map((_, i) => value[i] || '')
+    matches[row] = choice
+    onChange(matches)
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-gray-500">
+        Match each item on the left with one on the right. Pick from the list or drag an answer onto a row.
+      </p>
+      <div className="flex flex-wrap gap-2" aria-label="Answers to match">
+        {choices.map((choice) => (
+          <span
+            key={choice}
+            draggable={!disabled}
+            onDragStart={() => setDraggedChoice(choice)}
+            onDragEnd={() => setDraggedChoice(null)}
+            className={cn(
+              "rounded-full border px-3 py-1 text-sm bg-primary/10",
+              !disabled && "cursor-grab",
+              value.includes(choice) && "opacity-60"
+            )}
+          >
+            <RichText text={choice} />
+          </span>
+        ))}
+      </div>
+      <div className="space-y-2">
+        {leftItems.map((left, i) => (
+          <div
+            key={left}
+            className="grid grid-cols-1 sm:grid-cols-2 gap-2 items-center rounded-md border p-2"
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={(e) => {
+              e.preventDefault()
+              if (draggedChoice !== null) setMatch(i, draggedChoice)
+              setDraggedChoice(null)
+            }}
+          >
+            <span id={`match-left-${i}`} className="text-base font-medium"><RichText text={left} /></span>
+            <Select
+              value={value[i] || ""}
+              onValueChange={(choice) => setMatch(i, choice)}
+              disabled={disabled}
+            >
+              <SelectTrigger aria-labelledby={`match-left-${i}`}>
+                <SelectValue placeholder="Choose a match" />
+              </SelectTrigger>
+              <SelectContent>
+                {choices.map((choice) => (
+                  <SelectItem key={choice} value={choice}><RichText text={choice} /></SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
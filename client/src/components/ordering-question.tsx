@@ -0,0 +1,98 @@
+import { useState } from "react"
+import { ArrowDown, ArrowUp, GripVertical } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { cn } from "@/lib/utils"
+import { RichText } from "@/components/rich-text"
+
+type OrderingQuestionProps = {
+  items: string[]
+  onChange: (items: string[]) => void
+  disabled?: boolean
+}
+
+function moveItem(items: string[], from: number, to: number): string[] {
+  const reordered = [...items]
+  const [moved] = reordered.splice(from, 1)
+  reordered.splice(to, 0, moved)
+  return reordered
+}
+
+// "Arrange in the correct order" answer input
+// Items can be dragged, moved with the arrow buttons, or moved with Alt+Arrow keys when focused
+export function OrderingQuestion({ items, onChange, disabled = false }: OrderingQuestionProps) {
+  const [dragIndex, setDragIndex] = useState<number | null>(null)
+  const [announcement, setAnnouncement] = useState("")
+
+  const move = (from: number, to: number) => {
+    if (disabled || to < 0 || to >= items.length || from === to) return
+    onChange(moveItem(items, from, to))
+    setAnnouncement(`${items[from]} moved to position ${to + 1} of ${items.length}`)
+  }
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm text-gray-500">
+        Drag the items into the correct order, or use the arrow buttons (Alt + ↑/↓ on a focused item).
+      </p>
+      <ol className="space-y-2" aria-label="Items to order">
+        {items.map((item, i) => (
+          <li
+            key={item}
+            tabIndex={disabled ? -1 : 0}
+            draggable={!disabled}
+            onDragStart={() => setDragIndex(i)}
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={(e) => {
+              e.preventDefault()
+              if (dragIndex !== null) move(dragIndex, i)
+              setDragIndex(null)
+            }}
+            onDragEnd={() => setDragIndex(null)}
+            onKeyDown={(e) => {
+              if (!e.altKey) return
+              if (e.key === "ArrowUp") {
+                e.preventDefault()
+                move(i, i - 1)
+              } else if (e.key === "ArrowDown") {
+                e.preventDefault()
+                move(i, i + 1)
+              }
+            }}
+            className={cn(
+              "flex items-center gap-2 rounded-md border bg-background p-2 focus:outline-none focus:ring-2 focus:ring-primary",
+              !disabled && "cursor-grab",
+              dragIndex === i && "opacity-50"
+            )}
+          >
+            <GripVertical className="h-4 w-4 text-gray-400 shrink-0" aria-hidden="true" />
+            <span className="text-sm font-medium text-gray-500 w-6">{i + 1}.</span>
+            <RichText text={item} className="flex-1 text-base" />
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="h-7 w-7 p-0"
+              disabled={disabled || i === 0}
+              onClick={() => move(i, i - 1)}
+              aria-label={`Move ${item} up`}
+            >
+              <ArrowUp className="h-4 w-4" />
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="h-7 w-7 p-0"
+              disabled={disabled || i === items.length - 1}
+              onClick={() => move(i, i + 1)}
+              aria-label={`Move ${item} down`}
+            >
+              <ArrowDown className="h-4 w-4" />
+            </Button>
+          </li>
+        ))}
+      </ol>
+      <div className="sr-only" aria-live="polite">{announcement}</div>
+    </div>
+  )
+}
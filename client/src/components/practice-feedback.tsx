@@ -0,0 +1,61 @@
+import { Check, Minus, X } from "lucide-react"
+import { RichText } from "@/components/rich-text"
+import { resolveImageSrc } from "@/lib/image-store"
+import { describeAnswer, formatAnswer } from "@/lib/questions"
+import { formatScore, getExpectedAnswer, scoreQuestion } from "@/lib/scoring"
+import type { Answer, Question } from "@shared/schema"
+import { cn } from "@/lib/utils"
+
+type PracticeFeedbackProps = {
+  question: Question
+  answer: Answer
+}
+
+// Right/wrong verdict shown under a question once its answer is locked in practice mode,
+// together with the expected answer, the explanation and any answer images
+export function PracticeFeedback({ question, answer }: PracticeFeedbackProps) {
+  const credit = scoreQuestion(question, answer)
+  const expected = formatAnswer(describeAnswer(question, getExpectedAnswer(question, answer)))
+  const status = credit === 1 ? "correct" : credit > 0 ? "partial" : "incorrect"
+
+  return (
+    <div
+      role="status"
+      className={cn(
+        "rounded-md border p-4 space-y-3 text-sm",
+        status === "correct" && "bg-green-50 border-green-300 dark:bg-green-900/20 dark:border-green-700",
+        status === "partial" && "bg-yellow-50 border-yellow-300 dark:bg-yellow-900/20 dark:border-yellow-700",
+        status === "incorrect" && "bg-red-50 border-red-300 dark:bg-red-900/20 dark:border-red-700"
+      )}
+    >
+      <p className="flex items-center font-semibold">
+        {status === "correct" ? (
+          <><Check className="h-4 w-4 mr-2 text-green-600" />Correct!</>
+        ) : status === "partial" ? (
+          <><Minus className="h-4 w-4 mr-2 text-yellow-600" />Partly correct ({formatScore(credit)} of 1 point)</>
+        ) : (
+          <><X className="h-4 w-4 mr-2 text-red-600" />Incorrect</>
+        )}
+      </p>
+      {status !== "correct" && expected && (
+        <p>
+          <span className="font-medium">Correct answer: </span>
+          <RichText text={expected} />
+        </p>
+      )}
+      {question.answerDescription && (
+        <div>
+          <p className="font-medium">Explanation:</p>
+          <RichText text={question.answerDescription} markdown={question.format === "markdown"} />
+        </div>
+      )}
+      {question.answerImages.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {question.answerImages.map((img, i) => (
+            <img key={i} src={resolveImageSrc(img)} alt={`Answer image ${i + 1}`} className="max-h-40 rounded" />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,233 @@
+import { useMemo, useState } from "react"
+import { Bar, BarChart, CartesianGrid, Line, LineChart, PolarAngleAxis, PolarGrid, PolarRadiusAxis, Radar, RadarChart, XAxis, YAxis } from "recharts"
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  getActivityByDay,
+  getCategoryMastery,
+  getProgressEntries,
+  getScoreSeries,
+  getTimeSpentByDay,
+  toDayKey,
+  type ProgressQuiz,
+} from "@/lib/progress"
+import { cn } from "@/lib/utils"
+
+type ProgressChartsProps = {
+  quizzes: ProgressQuiz[]
+}
+
+const ALL_CATEGORIES = "all"
+const LINE_COLORS = ["hsl(221 83% 53%)", "hsl(142 71% 45%)", "hsl(25 95% 53%)", "hsl(280 65% 60%)", "hsl(346 77% 50%)"]
+const HEATMAP_WEEKS = 26  // Shown when no start date is picked
+
+const masteryConfig = {
+  mastery: { label: "Average score %", color: LINE_COLORS[0] },
+} satisfies ChartConfig
+
+const timeConfig = {
+  exam: { label: "Exam minutes", color: LINE_COLORS[0] },
+  practice: { label: "Practice minutes", color: LINE_COLORS[1] },
+} satisfies ChartConfig
+
+function parseDateInput(value: string): Date | undefined {
+  if (!value) return undefined
+  const [year, month, day] = value.split("-").map(Number)
+  return new Date(year, month - 1, day)
+}
+
+// Timestamps from the score chart, or YYYY-MM-DD day keys (read as local days, not UTC)
+function formatDay(value: number | string): string {
+  const date = typeof value === "string" ? parseDateInput(value) : new Date(value)
+  return date ? date.toLocaleDateString(undefined, { month: "short", day: "numeric" }) : ""
+}
+
+// Charts above the attempt tables in the history tab: scores over time, mastery per category,
+// time spent per day and a calendar of activity, all following the date and category filters
+export function ProgressCharts({ quizzes }: ProgressChartsProps) {
+  const [fromInput, setFromInput] = useState("")
+  const [toInput, setToInput] = useState("")
+  const [category, setCategory] = useState(ALL_CATEGORIES)
+
+  const categories = useMemo(() => Array.from(new Set(quizzes.map((quiz) => quiz.category))).sort(), [quizzes])
+  const from = parseDateInput(fromInput)
+  const to = parseDateInput(toInput)
+
+  const entries = useMemo(
+    () => getProgressEntries(quizzes, { from, to, categories: category === ALL_CATEGORIES ? [] : [category] }),
+    [quizzes, fromInput, toInput, category]
+  )
+  const scoreSeries = useMemo(() => getScoreSeries(entries), [entries])
+  const mastery = useMemo(() => getCategoryMastery(entries), [entries])
+  const timeSpent = useMemo(() => getTimeSpentByDay(entries), [entries])
+  const activity = useMemo(() => getActivityByDay(entries), [entries])
+
+  // One line per quiz that has exam attempts in range
+  const scoreConfig = useMemo(() => {
+    const config: ChartConfig = {}
+    const charted = new Set(entries.filter((entry) => entry.attempt.mode !== "practice").map((entry) => entry.quizId))
+    quizzes.filter((quiz) => charted.has(quiz.id)).forEach((quiz, i) => {
+      config[quiz.id] = { label: quiz.title, color: LINE_COLORS[i % LINE_COLORS.length] }
+    })
+    return config
+  }, [quizzes, entries])
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end gap-3">
+        <div>
+          <Label htmlFor="progress-from" className="text-xs">From</Label>
+          <Input id="progress-from" type="date" value={fromInput} max={toInput || undefined} onChange={(e) => setFromInput(e.target.value)} />
+        </div>
+        <div>
+          <Label htmlFor="progress-to" className="text-xs">To</Label>
+          <Input id="progress-to" type="date" value={toInput} min={fromInput || undefined} onChange={(e) => setToInput(e.target.value)} />
+        </div>
+        <div className="w-48">
+          <Label htmlFor="progress-category" className="text-xs">Category</Label>
+          <Select value={category} onValueChange={setCategory}>
+            <SelectTrigger id="progress-category">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_CATEGORIES}>All categories</SelectItem>
+              {categories.map((name) => (
+                <SelectItem key={name} value={name}>{name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <p className="text-xs text-gray-500 dark:text-gray-400 pb-2">{entries.length} attempts</p>
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-6">No attempts match these filters.</p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="lg:col-span-2">
+            <h4 className="text-sm font-medium mb-2">Scores Over Time</h4>
+            {scoreSeries.length > 0 ? (
+              <ChartContainer config={scoreConfig} className="h-64 w-full aspect-auto">
+                <LineChart data={scoreSeries} margin={{ left: 0, right: 12 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="date" type="number" scale="time" domain={["dataMin", "dataMax"]} tickFormatter={formatDay} />
+                  <YAxis domain={[0, 100]} unit="%" width={40} />
+                  <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => payload?.[0] ? new Date(payload[0].payload.date).toLocaleString() : ""} />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  {Object.keys(scoreConfig).map((quizId) => (
+                    <Line key={quizId} dataKey={quizId} stroke={`var(--color-${quizId})`} strokeWidth={2} connectNulls dot={{ r: 3 }} />
+                  ))}
+                </LineChart>
+              </ChartContainer>
+            ) : (
+              <p className="text-sm text-gray-500 dark:text-gray-400">Only practice runs in this range.</p>
+            )}
+          </div>
+
+          <div>
+            <h4 className="text-sm font-medium mb-2">Category Mastery</h4>
+            {mastery.length >= 3 ? (
+              <ChartContainer config={masteryConfig} className="h-64 w-full aspect-auto">
+                <RadarChart data={mastery}>
+                  <PolarGrid />
+                  <PolarAngleAxis dataKey="category" />
+                  <PolarRadiusAxis domain={[0, 100]} tick={false} axisLine={false} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Radar dataKey="mastery" fill="var(--color-mastery)" fillOpacity={0.4} stroke="var(--color-mastery)" />
+                </RadarChart>
+              </ChartContainer>
+            ) : (
+              <ul className="space-y-2 text-sm">
+                {mastery.map((item) => (
+                  <li key={item.category} className="flex items-center gap-2">
+                    <span className="w-32 truncate">{item.category}</span>
+                    <div className="flex-1 bg-gray-200 dark:bg-gray-600 rounded-full h-2.5">
+                      <div className="h-2.5 rounded-full bg-primary" style={{ width: `${item.mastery}%` }} />
+                    </div>
+                    <span className="w-10 text-right">{item.mastery}%</span>
+                  </li>
+                ))}
+                <li className="text-xs text-gray-500 dark:text-gray-400">The radar chart appears once you've taken exams in three categories.</li>
+              </ul>
+            )}
+          </div>
+
+          <div>
+            <h4 className="text-sm font-medium mb-2">Time Spent</h4>
+            <ChartContainer config={timeConfig} className="h-64 w-full aspect-auto">
+              <BarChart data={timeSpent} margin={{ left: 0, right: 12 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="day" tickFormatter={formatDay} />
+                <YAxis width={32} />
+                <ChartTooltip content={<ChartTooltipContent labelFormatter={(value) => formatDay(value)} />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar dataKey="exam" stackId="time" fill="var(--color-exam)" />
+                <Bar dataKey="practice" stackId="time" fill="var(--color-practice)" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ChartContainer>
+          </div>
+
+          <div className="lg:col-span-2">
+            <h4 className="text-sm font-medium mb-2">Activity</h4>
+            <ActivityHeatmap activity={activity} from={from} to={to} />
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+type ActivityHeatmapProps = {
+  activity: Map<string, number>  // Attempts per day, keyed by toDayKey
+  from?: Date
+  to?: Date
+}
+
+// GitHub-style calendar: one column per week, one square per day, darker with more attempts
+function ActivityHeatmap({ activity, from, to }: ActivityHeatmapProps) {
+  const end = to || new Date()
+  const start = from || new Date(end.getFullYear(), end.getMonth(), end.getDate() - HEATMAP_WEEKS * 7 + 1)
+  // Start on the Sunday on or before the first day so rows line up with weekdays
+  const first = new Date(start.getFullYear(), start.getMonth(), start.getDate() - start.getDay())
+  const max = Math.max(1, ...Array.from(activity.values()))
+
+  const weeks: Date[][] = []
+  for (let day = first; day <= end; day = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1)) {
+    if (day.getDay() === 0) weeks.push([])
+    weeks[weeks.length - 1].push(day)
+  }
+
+  const shade = (count: number) => {
+    if (count === 0) return "bg-gray-100 dark:bg-gray-800"
+    const level = count / max
+    if (level > 0.75) return "bg-green-700"
+    if (level > 0.5) return "bg-green-500"
+    if (level > 0.25) return "bg-green-400"
+    return "bg-green-200 dark:bg-green-900"
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="flex gap-1">
+        {weeks.map((week, i) => (
+          <div key={i} className="flex flex-col gap-1">
+            {week.map((day) => {
+              const key = toDayKey(day)
+              const count = activity.get(key) || 0
+              const outside = day < start
+              return (
+                <div
+                  key={key}
+                  className={cn("h-3 w-3 rounded-sm", outside ? "invisible" : shade(count))}
+                  title={`${day.toLocaleDateString()}: ${count} ${count === 1 ? "attempt" : "attempts"}`}
+                />
+              )
+            })}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,71 @@
+import { Flag } from "lucide-react"
+import { cn } from "@/lib/utils"
+
+// Where a learner stands on one question of a running attempt
+export type PaletteStatus = "unvisited" | "skipped" | "answered" | "marked"
+
+type QuestionPaletteProps = {
+  statuses: PaletteStatus[]
+  answered: boolean[]  // Marked questions can also be answered; shown with a dot
+  currentIndex: number
+  firstIndex: number  // Questions outside [firstIndex, lastIndex] (other sections) can't be opened
+  lastIndex: number
+  onJump: (index: number) => void
+}
+
+const STATUS_STYLES: Record<PaletteStatus, string> = {
+  unvisited: "bg-background text-gray-600 dark:text-gray-300",
+  skipped: "bg-red-100 text-red-700 border-red-300 dark:bg-red-900/30 dark:text-red-300 dark:border-red-700",
+  answered: "bg-green-100 text-green-700 border-green-300 dark:bg-green-900/30 dark:text-green-300 dark:border-green-700",
+  marked: "bg-purple-100 text-purple-700 border-purple-300 dark:bg-purple-900/30 dark:text-purple-300 dark:border-purple-700",
+}
+
+const STATUS_LABELS: Record<PaletteStatus, string> = {
+  unvisited: "Not visited",
+  skipped: "Not answered",
+  answered: "Answered",
+  marked: "Marked for review",
+}
+
+// Exam-style grid of question numbers: shows each question's state and jumps straight to it
+export function QuestionPalette({ statuses, answered, currentIndex, firstIndex, lastIndex, onJump }: QuestionPaletteProps) {
+  return (
+    <div className="mb-4 space-y-2">
+      <div className="flex flex-wrap gap-1.5 max-h-32 overflow-y-auto p-0.5" role="navigation" aria-label="Question palette">
+        {statuses.map((status, i) => {
+          const reachable = i >= firstIndex && i <= lastIndex
+          return (
+            <button
+              key={i}
+              type="button"
+              onClick={() => onJump(i)}
+              disabled={!reachable}
+              aria-current={i === currentIndex ? "true" : undefined}
+              aria-label={`Question ${i + 1}: ${STATUS_LABELS[status]}${status === "marked" && answered[i] ? ", answered" : ""}`}
+              className={cn(
+                "relative h-8 w-8 rounded-md border text-xs font-medium transition-colors",
+                STATUS_STYLES[status],
+                i === currentIndex && "ring-2 ring-primary ring-offset-1",
+                !reachable && "opacity-40 cursor-not-allowed"
+              )}
+            >
+              {i + 1}
+              {status === "marked" && answered[i] && (
+                <span className="absolute -bottom-0.5 -right-0.5 h-2 w-2 rounded-full bg-green-500" aria-hidden="true" />
+              )}
+            </button>
+          )
+        })}
+      </div>
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-500 dark:text-gray-400">
+        {(Object.keys(STATUS_LABELS) as PaletteStatus[]).map((status) => (
+          <span key={status} className="flex items-center">
+            <span className={cn("inline-block h-3 w-3 rounded-sm border mr-1", STATUS_STYLES[status])} />
+            {status === "marked" && <Flag className="h-3 w-3 mr-1" />}
+            {STATUS_LABELS[status]}
+          </span>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,121 @@
+import { Check, Clock } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { RichText } from "@/components/rich-text"
+import type { SectionResult } from "@shared/schema"
+import { formatScore } from "@/lib/scoring"
+import type { SectionRange } from "@/lib/sections"
+import { cn } from "@/lib/utils"
+
+type SectionTabsProps = {
+  sections: SectionRange[]
+  currentSectionIndex: number
+  answeredCounts: number[]  // Answered questions per section
+}
+
+// Section strip at the top of a running sectioned quiz: finished, current and upcoming sections
+export function SectionTabs({ sections, currentSectionIndex, answeredCounts }: SectionTabsProps) {
+  return (
+    <ol className="flex flex-wrap gap-2 mb-4" aria-label="Sections">
+      {sections.map((range, i) => (
+        <li
+          key={range.section.id}
+          aria-current={i === currentSectionIndex ? "step" : undefined}
+          className={cn(
+            "flex items-center rounded-full border px-3 py-1 text-xs",
+            i === currentSectionIndex && "border-primary bg-primary/10 font-medium",
+            i < currentSectionIndex && "text-gray-500 dark:text-gray-400",
+            i > currentSectionIndex && "text-gray-400 dark:text-gray-500"
+          )}
+        >
+          {i < currentSectionIndex && <Check className="h-3 w-3 mr-1" />}
+          {range.section.title}
+          <span className="ml-1 text-gray-500 dark:text-gray-400">
+            ({answeredCounts[i] ?? 0}/{range.end - range.start})
+          </span>
+        </li>
+      ))}
+    </ol>
+  )
+}
+
+type SectionIntroProps = {
+  range: SectionRange
+  sectionNumber: number
+  sectionCount: number
+  timed: boolean  // False in practice mode
+  onStart: () => void
+}
+
+// Instructions screen shown before each section; the section clock starts with the button
+export function SectionIntro({ range, sectionNumber, sectionCount, timed, onStart }: SectionIntroProps) {
+  const questionCount = range.end - range.start
+
+  return (
+    <div className="space-y-4 py-4">
+      <div>
+        <p className="text-sm text-gray-500 dark:text-gray-400">Section {sectionNumber} of {sectionCount}</p>
+        <h3 className="text-xl font-semibold">{range.section.title}</h3>
+      </div>
+      <p className="flex items-center text-sm text-gray-600 dark:text-gray-300">
+        <Clock className="h-4 w-4 mr-2 text-primary" />
+        {questionCount} {questionCount === 1 ? "question" : "questions"}
+        {timed && ` · ${Math.round(range.section.timer / 60)} minutes`}
+      </p>
+      {range.section.instructions && (
+        <div className="rounded-md border bg-muted/40 p-3 text-sm">
+          <RichText text={range.section.instructions} />
+        </div>
+      )}
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        {sectionNumber < sectionCount
+          ? "Once you move on to the next section you can't come back to this one."
+          : "This is the last section."}
+        {timed && " The section ends automatically when its time runs out."}
+      </p>
+      <Button onClick={onStart}>Start Section</Button>
+    </div>
+  )
+}
+
+type SectionBreakdownProps = {
+  results: SectionResult[]
+  showMarks?: boolean  // Add the weighted marks column
+}
+
+function formatDuration(seconds: number): string {
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, "0")}`
+}
+
+// Per-section score table for the results dialog and quiz history
+export function SectionBreakdown({ results, showMarks = false }: SectionBreakdownProps) {
+  return (
+    <table className="w-full text-sm border rounded-md overflow-hidden">
+      <thead>
+        <tr className="bg-gray-50 dark:bg-gray-800 border-b">
+          <th className="px-3 py-2 text-left">Section</th>
+          <th className="px-3 py-2 text-center">Score</th>
+          {showMarks && <th className="px-3 py-2 text-center">Marks</th>}
+          <th className="px-3 py-2 text-center">Time</th>
+        </tr>
+      </thead>
+      <tbody>
+        {results.map((result) => (
+          <tr key={result.sectionId} className="border-b last:border-0">
+            <td className="px-3 py-2">{result.title}</td>
+            <td className="px-3 py-2 text-center">
+              {formatScore(result.score)}/{result.totalQuestions}
+            </td>
+            {showMarks && (
+              <td className="px-3 py-2 text-center">
+                {result.weightedScore !== undefined && result.maxScore !== undefined
+                  ? `${formatScore(result.weightedScore)}/${formatScore(result.maxScore)}`
+                  : "-"}
+              </td>
+            )}
+            <td className="px-3 py-2 text-center font-mono">{formatDuration(result.timeSpent)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+}
@@ -0,0 +1,250 @@
+import type { MarkingScheme, QuizSettings, RetakePolicy } from "@shared/schema"
+import { DEFAULT_RETAKE_POLICY } from "@shared/retake"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { DEFAULT_MARKING } from "@/lib/scoring"
+
+// Window dates are stored as ISO strings; datetime-local inputs want local time without a zone
+function toDateTimeInput(iso?: string): string {
+  if (!iso) return ''
+  const date = new Date(iso)
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16)
+}
+
+function fromDateTimeInput(value: string): string | undefined {
+  const date = new Date(value)
+  return value && !isNaN(date.getTime()) ? date.toISOString() : undefined
+}
+
+// Policy a newly picked retake rule starts from
+const RETAKE_DEFAULTS: Record<RetakePolicy["type"], RetakePolicy> = {
+  unlimited: { type: "unlimited" },
+  cooldown: DEFAULT_RETAKE_POLICY,
+  maxAttempts: { type: "maxAttempts", attempts: 1 },
+  window: { type: "window" },
+}
+
+type QuizSettingsFormProps = {
+  settings: QuizSettings
+  onChange: (settings: QuizSettings) => void
+  questionCount: number  // Size of the question pool being edited
+}
+
+// Attempt settings in the quiz editor: marking scheme, question/option shuffling, random question subsets,
+// per-question time limits, how resumed exams count time spent away and when exams can be retaken
+export function QuizSettingsForm({ settings, onChange, questionCount }: QuizSettingsFormProps) {
+  const update = (changes: Partial<QuizSettings>) => onChange({ ...settings, ...changes })
+  const marking = settings.marking || DEFAULT_MARKING
+  const retake = settings.retake || DEFAULT_RETAKE_POLICY
+
+  // Marks are typed as plain numbers; penalties are stored as negative values whatever sign is typed
+  const updateMarking = (field: keyof MarkingScheme, value: string) => {
+    const parsed = parseFloat(value)
+    const mark = Number.isFinite(parsed) ? parsed : 0
+    // A correct answer must be worth something, so a blank or zero correct mark keeps the previous value
+    const next = { ...marking, [field]: field === "correct" ? (mark > 0 ? mark : marking.correct) : -Math.abs(mark) }
+    const isDefault = next.correct === DEFAULT_MARKING.correct && next.incorrect === 0 && !next.unanswered
+    update({ marking: isDefault ? undefined : next })
+  }
+
+  return (
+    <div className="space-y-3">
+      <h4 className="text-sm font-medium">Marking Scheme</h4>
+      <div className="grid grid-cols-3 gap-2 max-w-md">
+        <div>
+          <Label htmlFor="settings-marking-correct" className="text-xs">Correct</Label>
+          <Input
+            id="settings-marking-correct"
+            type="number"
+            min="0"
+            step="0.25"
+            value={marking.correct}
+            onChange={(e) => updateMarking("correct", e.target.value)}
+          />
+        </div>
+        <div>
+          <Label htmlFor="settings-marking-incorrect" className="text-xs">Wrong (penalty)</Label>
+          <Input
+            id="settings-marking-incorrect"
+            type="number"
+            max="0"
+            step="0.25"
+            value={marking.incorrect}
+            onChange={(e) => updateMarking("incorrect", e.target.value)}
+          />
+        </div>
+        <div>
+          <Label htmlFor="settings-marking-unanswered" className="text-xs">Unanswered</Label>
+          <Input
+            id="settings-marking-unanswered"
+            type="number"
+            max="0"
+            step="0.25"
+            value={marking.unanswered ?? 0}
+            onChange={(e) => updateMarking("unanswered", e.target.value)}
+          />
+        </div>
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Marks per question, multiplied by each question's weight. Competitive exams often use +4 / −1 / 0.
+      </p>
+
+      <h4 className="text-sm font-medium">Question Order</h4>
+      <div className="flex items-center space-x-2">
+        <Checkbox
+          id="settings-shuffle-questions"
+          checked={!!settings.shuffleQuestions}
+          onCheckedChange={(checked) => update({ shuffleQuestions: checked === true })}
+        />
+        <Label htmlFor="settings-shuffle-questions">Shuffle questions on every attempt</Label>
+      </div>
+      <div className="flex items-center space-x-2">
+        <Checkbox
+          id="settings-shuffle-options"
+          checked={!!settings.shuffleOptions}
+          onCheckedChange={(checked) => update({ shuffleOptions: checked === true })}
+        />
+        <Label htmlFor="settings-shuffle-options">Shuffle answer options</Label>
+      </div>
+      {settings.shuffleOptions && (
+        <div className="flex items-center space-x-2 ml-6">
+          <Checkbox
+            id="settings-anchor-last"
+            checked={!!settings.anchorLastOption}
+            onCheckedChange={(checked) => update({ anchorLastOption: checked === true })}
+          />
+          <Label htmlFor="settings-anchor-last">Keep the last option in place (e.g. "All of the above")</Label>
+        </div>
+      )}
+      <div>
+        <Label htmlFor="settings-question-count">Questions per attempt (optional)</Label>
+        <Input
+          id="settings-question-count"
+          type="number"
+          min="1"
+          max={questionCount || undefined}
+          placeholder={`All ${questionCount} questions`}
+          value={settings.questionCount ?? ''}
+          onChange={(e) => {
+            const count = parseInt(e.target.value)
+            update({ questionCount: Number.isFinite(count) && count > 0 ? count : undefined })
+          }}
+          className="max-w-[200px]"
+        />
+        <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+          Each attempt draws this many questions at random from the pool
+        </p>
+      </div>
+
+      <h4 className="text-sm font-medium">Question Timing</h4>
+      <div>
+        <Label htmlFor="settings-question-time-limit">Time per question in seconds (optional)</Label>
+        <Input
+          id="settings-question-time-limit"
+          type="number"
+          min="5"
+          step="5"
+          placeholder="No limit"
+          value={settings.questionTimeLimit ?? ''}
+          onChange={(e) => {
+            const seconds = parseInt(e.target.value)
+            update({ questionTimeLimit: Number.isFinite(seconds) && seconds > 0 ? seconds : undefined })
+          }}
+          className="max-w-[200px]"
+        />
+        <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+          In exams the quiz moves to the next question when the time runs out. Questions can set their own limit.
+        </p>
+      </div>
+      <div className="flex items-center space-x-2">
+        <Checkbox
+          id="settings-pause-when-away"
+          checked={!!settings.pauseWhenAway}
+          onCheckedChange={(checked) => update({ pauseWhenAway: checked === true })}
+        />
+        <Label htmlFor="settings-pause-when-away">Pause the clock while an interrupted exam is closed</Label>
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        By default the time keeps running after a reload or crash, so an exam that ran out while away is submitted on resume.
+      </p>
+
+      <h4 className="text-sm font-medium">Retakes</h4>
+      <div className="flex flex-wrap items-end gap-2">
+        <div className="w-56">
+          <Label htmlFor="settings-retake-type" className="text-xs">Exam attempts</Label>
+          <Select
+            value={retake.type}
+            onValueChange={(value) => update({ retake: RETAKE_DEFAULTS[value as RetakePolicy["type"]] })}
+          >
+            <SelectTrigger id="settings-retake-type">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="unlimited">Unlimited</SelectItem>
+              <SelectItem value="cooldown">Cooldown between attempts</SelectItem>
+              <SelectItem value="maxAttempts">Limited number of attempts</SelectItem>
+              <SelectItem value="window">Only between two dates</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {retake.type === "cooldown" && (
+          <div className="w-32">
+            <Label htmlFor="settings-retake-minutes" className="text-xs">Minutes</Label>
+            <Input
+              id="settings-retake-minutes"
+              type="number"
+              min="1"
+              value={retake.minutes}
+              onChange={(e) => {
+                const minutes = parseInt(e.target.value)
+                update({ retake: { type: "cooldown", minutes: minutes > 0 ? minutes : 1 } })
+              }}
+            />
+          </div>
+        )}
+        {retake.type === "maxAttempts" && (
+          <div className="w-32">
+            <Label htmlFor="settings-retake-attempts" className="text-xs">Attempts</Label>
+            <Input
+              id="settings-retake-attempts"
+              type="number"
+              min="1"
+              value={retake.attempts}
+              onChange={(e) => {
+                const attempts = parseInt(e.target.value)
+                update({ retake: { type: "maxAttempts", attempts: attempts > 0 ? attempts : 1 } })
+              }}
+            />
+          </div>
+        )}
+        {retake.type === "window" && (
+          <>
+            <div>
+              <Label htmlFor="settings-retake-opens" className="text-xs">Opens</Label>
+              <Input
+                id="settings-retake-opens"
+                type="datetime-local"
+                value={toDateTimeInput(retake.opensAt)}
+                onChange={(e) => update({ retake: { ...retake, opensAt: fromDateTimeInput(e.target.value) } })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="settings-retake-closes" className="text-xs">Closes</Label>
+              <Input
+                id="settings-retake-closes"
+                type="datetime-local"
+                value={toDateTimeInput(retake.closesAt)}
+                onChange={(e) => update({ retake: { ...retake, closesAt: fromDateTimeInput(e.target.value) } })}
+              />
+            </div>
+          </>
+        )}
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Practice runs are always available and don't count as attempts.
+      </p>
+    </div>
+  )
+}
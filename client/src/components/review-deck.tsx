@@ -0,0 +1,123 @@
+import { useEffect, useState } from "react"
+import { Check, Eye } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { RichText } from "@/components/rich-text"
+import { resolveImageSrc } from "@/lib/image-store"
+import { describeAnswer, formatAnswer, getCorrectAnswer, getQuestionType, usesOptions } from "@/lib/questions"
+import { REVIEW_GRADES, formatInterval, scheduleReview, type ReviewGrade } from "@/lib/review"
+import type { Question, ReviewCard } from "@shared/schema"
+import { cn } from "@/lib/utils"
+
+// One due card, with the quiz question it was made for
+export type ReviewItem = {
+  key: string
+  quizId: string
+  quizTitle: string
+  question: Question
+  card: ReviewCard
+}
+
+type ReviewDeckProps = {
+  items: ReviewItem[]  // Due cards, in the order they should be reviewed
+  onGrade: (item: ReviewItem, grade: ReviewGrade) => void
+}
+
+const GRADE_LABELS: Record<ReviewGrade, string> = {
+  again: "Again",
+  hard: "Hard",
+  good: "Good",
+  easy: "Easy",
+}
+
+// Flashcard-style review of missed questions: recall the answer, reveal it, then grade how well you remembered
+export function ReviewDeck({ items, onGrade }: ReviewDeckProps) {
+  const [isRevealed, setIsRevealed] = useState(false)
+  const item = items[0]
+
+  useEffect(() => {
+    setIsRevealed(false)
+  }, [item?.key])
+
+  if (!item) {
+    return (
+      <div className="text-center py-12 space-y-2">
+        <Check className="h-8 w-8 mx-auto text-green-600" />
+        <p className="text-lg text-gray-500 dark:text-gray-300">Nothing due for review today.</p>
+        <p className="text-sm text-gray-400">Questions you get wrong in a quiz are added here and come back on a schedule.</p>
+      </div>
+    )
+  }
+
+  const { question } = item
+  const isMarkdown = question.format === "markdown"
+  const correctAnswer = formatAnswer(describeAnswer(question, getCorrectAnswer(question)))
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between text-sm text-gray-500 dark:text-gray-400">
+        <Badge variant="outline">{item.quizTitle}</Badge>
+        <span>{items.length} due</span>
+      </div>
+
+      <RichText text={question.question} markdown={isMarkdown} className="text-lg font-medium block" />
+      {question.questionImages.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {question.questionImages.map((img, i) => (
+            <img key={i} src={resolveImageSrc(img)} alt={`Question image ${i + 1}`} className="max-h-48 rounded" />
+          ))}
+        </div>
+      )}
+      {usesOptions(question) && getQuestionType(question) !== "boolean" && (
+        <ol className="list-[upper-alpha] pl-6 space-y-1 text-sm">
+          {question.options.map((option, i) => (
+            <li key={i}><RichText text={option} /></li>
+          ))}
+        </ol>
+      )}
+
+      {isRevealed ? (
+        <div className="rounded-md border p-4 space-y-3 text-sm bg-muted/40">
+          <p>
+            <span className="font-medium">Answer: </span>
+            <RichText text={correctAnswer} />
+          </p>
+          {question.answerDescription && (
+            <div>
+              <p className="font-medium">Explanation:</p>
+              <RichText text={question.answerDescription} markdown={isMarkdown} />
+            </div>
+          )}
+          {question.answerImages.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {question.answerImages.map((img, i) => (
+                <img key={i} src={resolveImageSrc(img)} alt={`Answer image ${i + 1}`} className="max-h-40 rounded" />
+              ))}
+            </div>
+          )}
+        </div>
+      ) : (
+        <Button variant="outline" onClick={() => setIsRevealed(true)}>
+          <Eye className="h-4 w-4 mr-2" />
+          Show Answer
+        </Button>
+      )}
+
+      {isRevealed && (
+        <div className="grid grid-cols-4 gap-2">
+          {REVIEW_GRADES.map((grade) => (
+            <Button
+              key={grade}
+              variant={grade === "again" ? "destructive" : "outline"}
+              onClick={() => onGrade(item, grade)}
+              className={cn("flex-col h-auto py-2", grade === "good" && "border-primary")}
+            >
+              <span>{GRADE_LABELS[grade]}</span>
+              <span className="text-xs opacity-70">{formatInterval(scheduleReview(item.card, grade).interval)}</span>
+            </Button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
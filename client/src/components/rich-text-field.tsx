@@ -0,0 +1,53 @@
+import { Textarea } from "@/components/ui/textarea"
+import { MathPreview, RichText } from "@/components/rich-text"
+
+type RichTextFieldProps = {
+  id: string
+  value: string
+  onChange: (value: string) => void
+  placeholder?: string
+  rows?: number
+  markdown?: boolean
+}
+
+// Editor textarea for question and explanation text
+// Markdown fields get a side-by-side live preview; plain fields only preview formulas
+export function RichTextField({ id, value, onChange, placeholder, rows = 2, markdown = false }: RichTextFieldProps) {
+  if (!markdown) {
+    return (
+      <>
+        <Textarea
+          id={id}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={placeholder}
+          rows={rows}
+        />
+        <MathPreview text={value} />
+      </>
+    )
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+      <Textarea
+        id={id}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={placeholder}
+        rows={Math.max(rows, 5)}
+        className="font-mono text-sm"
+      />
+      <div
+        className="rounded-md border border-dashed bg-muted/40 px-3 py-2 overflow-auto"
+        aria-label="Markdown preview"
+      >
+        {value.trim() ? (
+          <RichText text={value} markdown />
+        ) : (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Preview appears here</p>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,91 @@
+import { memo, useMemo } from "react"
+import katex from "katex"
+import Markdown from "react-markdown"
+import remarkGfm from "remark-gfm"
+import remarkMath from "remark-math"
+import rehypeKatex from "rehype-katex"
+import rehypeSanitize, { defaultSchema } from "rehype-sanitize"
+import "katex/dist/katex.min.css"
+import { containsMath, splitMath } from "@/lib/math"
+import { cn } from "@/lib/utils"
+
+type RichTextProps = {
+  text: string
+  markdown?: boolean
+  className?: string
+}
+
+function renderTeX(tex: string, displayMode: boolean): string {
+  return katex.renderToString(tex, {
+    displayMode,
+    throwOnError: false, // Show the faulty TeX in red instead of breaking the page
+    output: "htmlAndMathml", // MathML keeps formulas readable by screen readers
+  })
+}
+
+// GitHub's sanitize schema, plus the classes remark-math puts on formulas so rehype-katex can find them
+// Sanitizing runs before KaTeX, so only author-written markup is filtered
+const sanitizeSchema = {
+  ...defaultSchema,
+  attributes: {
+    ...defaultSchema.attributes,
+    code: [["className", /^language-./, "math-inline", "math-display"]],
+  },
+}
+
+const remarkPlugins = [remarkGfm, remarkMath]
+const rehypePlugins: NonNullable<Parameters<typeof Markdown>[0]["rehypePlugins"]> = [
+  [rehypeSanitize, sanitizeSchema],
+  rehypeKatex,
+]
+
+// Renders question, option and explanation text with inline ($...$) and block ($$...$$) TeX
+// Plain text is rendered as-is, so questions without formulas look exactly as before
+// Markdown (bold, lists, code blocks, tables) is rendered without raw HTML and sanitized
+export const RichText = memo(function RichText({ text, markdown = false, className }: RichTextProps) {
+  const segments = useMemo(() => (markdown ? [] : splitMath(text || "")), [text, markdown])
+
+  if (markdown) {
+    return (
+      <div className={cn("rich-text prose prose-sm max-w-none dark:prose-invert", className)}>
+        <Markdown
+          remarkPlugins={remarkPlugins}
+          rehypePlugins={rehypePlugins}
+          components={{
+            a: ({ node, ...props }) => <a {...props} target="_blank" rel="noopener noreferrer" />,
+          }}
+        >
+          {text || ""}
+        </Markdown>
+      </div>
+    )
+  }
+
+  return (
+    <span className={cn("rich-text whitespace-pre-wrap", className)}>
+      {segments.map((segment, i) =>
+        segment.type === "text" ? (
+          <span key={i}>{segment.value}</span>
+        ) : (
+          <span
+            key={i}
+            className={segment.displayMode ? "block my-2 overflow-x-auto" : undefined}
+            dangerouslySetInnerHTML={{ __html: renderTeX(segment.value, segment.displayMode) }}
+          />
+        )
+      )}
+    </span>
+  )
+})
+
+// Live preview shown under editor fields, only once the text actually contains TeX
+export function MathPreview({ text, className }: RichTextProps) {
+  if (!containsMath(text || "")) return null
+
+  return (
+    <div className={cn("mt-1 rounded-md border border-dashed bg-muted/40 px-3 py-2 text-sm", className)}>
+      <span className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Preview</span>
+      <RichText text={text} />
+    </div>
+  )
+}
@@ -0,0 +1,88 @@
+import { v4 as uuidv4 } from "uuid"
+import { Minus, Plus } from "lucide-react"
+import type { QuizSection } from "@shared/schema"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+
+type SectionsEditorProps = {
+  sections: QuizSection[]
+  onChange: (sections: QuizSection[]) => void
+}
+
+// Quiz editor block for splitting a long quiz into timed sections (e.g. Reasoning, Maths, GK)
+// Questions are assigned to a section from their own card
+export function SectionsEditor({ sections, onChange }: SectionsEditorProps) {
+  const updateSection = (index: number, changes: Partial<QuizSection>) => {
+    onChange(sections.map((section, i) => (i === index ? { ...section, ...changes } : section)))
+  }
+
+  const addSection = () => {
+    onChange([...sections, { id: uuidv4(), title: `Section ${sections.length + 1}`, instructions: "", timer: 600 }])
+  }
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <h4 className="text-sm font-medium">Sections</h4>
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          {sections.length > 0
+            ? "Sections are taken in order, each with its own time limit. The quiz timer above is not used."
+            : "Optional. Split a long test into parts with their own instructions and time limits."}
+        </p>
+      </div>
+      {sections.map((section, index) => (
+        <div key={section.id} className="rounded-md border p-3 space-y-2">
+          <div className="flex items-end gap-2">
+            <div className="flex-1">
+              <Label htmlFor={`section-title-${index}`} className="text-xs">Title</Label>
+              <Input
+                id={`section-title-${index}`}
+                value={section.title}
+                onChange={(e) => updateSection(index, { title: e.target.value })}
+                placeholder={`Section ${index + 1}`}
+              />
+            </div>
+            <div className="w-32">
+              <Label htmlFor={`section-timer-${index}`} className="text-xs">Time (minutes)</Label>
+              <Input
+                id={`section-timer-${index}`}
+                type="number"
+                min="1"
+                value={Math.round(section.timer / 60)}
+                onChange={(e) => {
+                  const minutes = parseInt(e.target.value)
+                  updateSection(index, { timer: minutes > 0 ? minutes * 60 : 60 })
+                }}
+              />
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onChange(sections.filter((_, i) => i !== index))}
+              className="text-red-500 hover:text-red-700"
+              title="Remove section"
+            >
+              <Minus className="h-4 w-4" />
+            </Button>
+          </div>
+          <div>
+            <Label htmlFor={`section-instructions-${index}`} className="text-xs">Instructions</Label>
+            <Textarea
+              id={`section-instructions-${index}`}
+              value={section.instructions || ""}
+              onChange={(e) => updateSection(index, { instructions: e.target.value })}
+              placeholder="Shown before the section starts"
+              rows={2}
+            />
+          </div>
+        </div>
+      ))}
+      <Button variant="outline" size="sm" onClick={addSection}>
+        <Plus className="h-4 w-4 mr-1" />
+        Add Section
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,56 @@
+import { HardDrive } from "lucide-react"
+import { Progress } from "@/components/ui/progress"
+import type { StorageEstimate } from "@/lib/quiz-db"
+import { cn } from "@/lib/utils"
+
+type StorageUsageProps = {
+  estimate: StorageEstimate | null  // null while loading, or where the browser can't tell
+}
+
+// Share of the quota used before the bar turns amber, then red
+const WARN_AT = 0.7
+const FULL_AT = 0.9
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 ** 2) return `${(bytes / 1024).toFixed(1)} KB`
+  if (bytes < 1024 ** 3) return `${(bytes / 1024 ** 2).toFixed(1)} MB`
+  return `${(bytes / 1024 ** 3).toFixed(1)} GB`
+}
+
+// How much of the browser's storage quota the saved quizzes, attempts and images take up
+export function StorageUsage({ estimate }: StorageUsageProps) {
+  if (!estimate) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        Storage usage isn't available in this browser.
+      </p>
+    )
+  }
+
+  const fraction = Math.min(1, estimate.usage / estimate.quota)
+  const remaining = Math.max(0, estimate.quota - estimate.usage)
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-sm">
+        <span className="flex items-center gap-2">
+          <HardDrive className="h-4 w-4" />
+          {formatBytes(estimate.usage)} used of {formatBytes(estimate.quota)}
+        </span>
+        <span className={cn("font-medium", fraction >= FULL_AT ? "text-red-600" : fraction >= WARN_AT ? "text-amber-600" : "text-gray-600 dark:text-gray-300")}>
+          {formatBytes(remaining)} left
+        </span>
+      </div>
+      <Progress
+        value={fraction * 100}
+        className={cn("h-2", fraction >= FULL_AT ? "[&>div]:bg-red-600" : fraction >= WARN_AT && "[&>div]:bg-amber-500")}
+      />
+      {fraction >= FULL_AT && (
+        <p className="text-xs text-red-600">
+          Storage is almost full. Export and remove quizzes you no longer need, or remove large images.
+        </p>
+      )}
+    </div>
+  )
+}
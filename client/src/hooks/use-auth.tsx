@@ -0,0 +1,119 @@
+import { createContext, useContext } from "react"
+import { useMutation, useQuery } from "@tanstack/react-query"
+import type { QuizRole, User } from "@shared/schema"
+import { getQuizRole } from "@shared/permissions"
+import { apiRequest, queryClient, setCsrfToken } from "@/lib/queryClient"
+
+export type AuthUser = Omit<User, "password">
+
+type AuthResponse = {
+  user: AuthUser
+  quizRoles: Record<string, QuizRole>  // Role by quiz unique ID
+  csrfToken: string
+}
+
+type Credentials = {
+  username: string
+  password: string
+}
+
+// "unavailable" means there's no account API at all (e.g. the static build), so the device is single-user
+export type AuthStatus = "loading" | "anonymous" | "authenticated" | "unavailable"
+
+type AuthState = {
+  status: AuthStatus
+  user: AuthUser | null
+  login: (credentials: Credentials) => Promise<void>
+  register: (credentials: Credentials) => Promise<void>
+  logout: () => Promise<void>
+  isPending: boolean
+  // The current user's role on a quiz kept on this device
+  roleFor: (quiz: LocalQuiz) => QuizRole | null
+  // Asks the server again which quizzes the user has a role on, by unique ID, e.g. before syncing
+  refreshQuizRoles: () => Promise<Record<string, QuizRole>>
+}
+
+// What roleFor needs to know about a quiz on this device
+type LocalQuiz = {
+  createdBy?: number | null  // Unset for quizzes made without logging in
+  uniqueId?: string  // Set once the server has the quiz
+}
+
+const ME_QUERY_KEY = ["/api/auth/me"]
+
+const AuthContext = createContext<AuthState | null>(null)
+
+// null when logged out; throws when the server has no account API
+async function fetchMe(): Promise<AuthResponse | null> {
+  const res = await fetch("/api/auth/me", { credentials: "include" })
+  if (res.status === 401) return null
+  if (!res.ok || !res.headers.get("content-type")?.includes("application/json")) {
+    throw new Error(`Account API unavailable (${res.status})`)
+  }
+  return await res.json()
+}
+
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  const { data, isLoading, isError, refetch } = useQuery({ queryKey: ME_QUERY_KEY, queryFn: fetchMe })
+
+  // Logging in or out starts a new session with its own CSRF token
+  const onAuthChange = (token: string) => {
+    setCsrfToken(token)
+    return queryClient.invalidateQueries({ queryKey: ME_QUERY_KEY })
+  }
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: Credentials) => {
+      const res = await apiRequest("/api/auth/login", { method: "POST", body: JSON.stringify(credentials) })
+      return await onAuthChange((await res.json()).csrfToken)
+    }
+  })
+  const registerMutation = useMutation({
+    mutationFn: async (credentials: Credentials) => {
+      const res = await apiRequest("/api/auth/register", { method: "POST", body: JSON.stringify(credentials) })
+      return await onAuthChange((await res.json()).csrfToken)
+    }
+  })
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("/api/auth/logout", { method: "POST" })
+      return await onAuthChange((await res.json()).csrfToken)
+    }
+  })
+
+  const status: AuthStatus = isLoading ? "loading" : isError ? "unavailable" : data ? "authenticated" : "anonymous"
+  const user = data?.user ?? null
+
+  // Quizzes made without logging in never left this device, so whoever uses it owns them (a password on one
+  // is what keeps others on the device out of its editor). An account's quizzes need the server to say who's
+  // logged in, and roles granted there only apply to quizzes the server has, under its ID for them
+  const roleFor = (quiz: LocalQuiz): QuizRole | null => {
+    if (quiz.createdBy == null) return "owner"
+    return getQuizRole(user, quiz, quiz.uniqueId ? data?.quizRoles[quiz.uniqueId] : null)
+  }
+
+  return (
+    <AuthContext.Provider
+      value={{
+        status,
+        user,
+        login: async (credentials) => { await loginMutation.mutateAsync(credentials) },
+        register: async (credentials) => { await registerMutation.mutateAsync(credentials) },
+        logout: async () => { await logoutMutation.mutateAsync() },
+        isPending: loginMutation.isPending || registerMutation.isPending || logoutMutation.isPending,
+        roleFor,
+        refreshQuizRoles: async () => (await refetch()).data?.quizRoles ?? {}
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  )
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext)
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider")
+  }
+  return context
+}
@@ -0,0 +1,118 @@
+import type { Question, QuizAttempt, QuizSection, QuizSettings } from "@shared/schema"
+import { getQuestionType } from "./questions"
+import { getSectionRanges, sortBySection, type SectionRange } from "./sections"
+import { shuffleArray } from "./shuffle"
+
+/**
+ * Questions as one attempt presents them
+ * `questionOrder[i]` is the index in the quiz of the i-th question shown;
+ * `sections` is empty unless the quiz is split into sections
+ */
+export type AttemptLayout<Q extends Question = Question> = {
+  questions: Q[];
+  questionOrder: number[];
+  sections: SectionRange[];
+};
+
+/**
+ * Shuffles a question's options, optionally leaving the last one where it is
+ * so options like "All of the above" or "None of these" stay at the bottom
+ */
+export function shuffleOptions(options: readonly string[], anchorLast = false, random: () => number = Math.random): string[] {
+  if (anchorLast && options.length > 1) {
+    return [...shuffleArray(options.slice(0, -1), random), options[options.length - 1]];
+  }
+  return shuffleArray(options, random);
+}
+
+/**
+ * Picks, orders and shuffles the questions for a new attempt according to the quiz settings
+ * Only single and multiple choice options are shuffled - True/False keeps its natural order,
+ * ordering questions are shuffled when answered and matching questions shuffle their own choices
+ * Sectioned quizzes are then grouped by section, so shuffling only mixes questions within a section
+ */
+export function buildAttemptLayout<Q extends Question>(
+  questions: readonly Q[],
+  settings: QuizSettings = {},
+  sections: readonly QuizSection[] = [],
+  random: () => number = Math.random
+): AttemptLayout<Q> {
+  let questionOrder = questions.map((_, index) => index);
+
+  const count = settings.questionCount;
+  if (count && count < questions.length) {
+    // Draw the subset at random, then keep authoring order unless questions are shuffled too
+    questionOrder = shuffleArray(questionOrder, random).slice(0, count);
+    if (!settings.shuffleQuestions) {
+      questionOrder.sort((a, b) => a - b);
+    }
+  } else if (settings.shuffleQuestions) {
+    questionOrder = shuffleArray(questionOrder, random);
+  }
+
+  if (sections.length > 0) {
+    const drawn = questionOrder.map(index => questions[index]);
+    questionOrder = sortBySection(drawn, sections).map(position => questionOrder[position]);
+  }
+
+  const presented = questionOrder.map(index => {
+    const question = questions[index];
+    const type = getQuestionType(question);
+    if (!settings.shuffleOptions || (type !== 'single' && type !== 'multiple')) {
+      return question;
+    }
+    return { ...question, options: shuffleOptions(question.options, settings.anchorLastOption, random) };
+  });
+
+  return {
+    questions: presented,
+    questionOrder,
+    sections: sections.length > 0 ? getSectionRanges(presented, sections) : []
+  };
+}
+
+/**
+ * Time limit for a question in seconds, or undefined when it is untimed
+ * A question's own limit wins over the quiz-wide per-question limit
+ */
+export function getQuestionTimeLimit(question: Question, settings: QuizSettings = {}): number | undefined {
+  return question.timeLimit ?? settings.questionTimeLimit;
+}
+
+/**
+ * Finds the quiz question a recorded result belongs to, or -1 if it has been deleted
+ * Results are matched by question id; older results without one go through the attempt's question order,
+ * falling back to the question text when the quiz has been reordered
+ */
+export function resolveResultQuestion(
+  questions: readonly Question[],
+  attempt: Pick<QuizAttempt, 'questionOrder' | 'questionResults'>,
+  position: number
+): number {
+  const result = attempt.questionResults?.[position];
+  if (!result) return -1;
+  if (result.questionId) {
+    return questions.findIndex(question => question.id === result.questionId);
+  }
+  const recorded = attempt.questionOrder?.[position] ?? position;
+  return questions[recorded]?.question === result.question
+    ? recorded
+    : questions.findIndex(question => question.question === result.question);
+}
+
+/**
+ * Questions answered wrongly or left blank in a past attempt, resolved back to the full quiz questions
+ * Questions deleted since the attempt are left out
+ */
+export function getIncorrectQuestions<Q extends Question>(
+  questions: readonly Q[],
+  attempt: Pick<QuizAttempt, 'questionOrder' | 'questionResults'>
+): Q[] {
+  const indexes = new Set<number>();
+  (attempt.questionResults || []).forEach((result, position) => {
+    if (result.isCorrect) return;
+    const index = resolveResultQuestion(questions, attempt, position);
+    if (index !== -1) indexes.add(index);
+  });
+  return Array.from(indexes).sort((a, b) => a - b).map(index => questions[index]);
+}
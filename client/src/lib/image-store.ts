@@ -0,0 +1,171 @@
+import { collectImageHashes, getImageHash, mapQuestionImages, toImageRef } from "@shared/image-refs"
+import type { Question } from "@shared/schema"
+import { deleteImages, loadImages, putImage } from "./quiz-db"
+
+// Every stored image by hash, filled by loadImageStore so images render without waiting on IndexedDB
+const cache = new Map<string, string>();
+
+// Images above this many characters get compressed harder
+const LARGE_IMAGE_SIZE = 50000;
+
+const BUNDLE_FORMAT = 'bmv-quiz-bundle';
+const BUNDLE_VERSION = 1;
+
+/**
+ * The parts of a quiz the image store needs
+ */
+type QuizWithQuestions = {
+  questions: Question[];
+};
+
+/**
+ * Exported quizzes with the images they use, each included once however many questions share it
+ */
+export type QuizBundle<T> = {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  quizzes: T[];
+  images: Record<string, string>; // Data URL by content hash
+};
+
+/**
+ * Reads every stored image into memory; call before showing any quiz
+ */
+export async function loadImageStore(): Promise<void> {
+  const images = await loadImages();
+  cache.clear();
+  images.forEach(image => cache.set(image.hash, image.dataUrl));
+}
+
+/**
+ * What to put in an <img> src: the stored data URL for a reference, anything else as is
+ * Undefined when the referenced image is missing
+ */
+export function resolveImageSrc(src: string): string | undefined {
+  const hash = getImageHash(src);
+  return hash ? cache.get(hash) : src;
+}
+
+function decodeImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Could not decode image'));
+    image.src = src;
+  });
+}
+
+// Re-encodes an image as WebP no larger than maxSize on its longest side.
+// Keeps the original when that wouldn't be smaller, when the browser can't decode it or can't encode WebP,
+// and for GIFs (which may be animated) and SVGs
+async function compressImage(dataUrl: string, quality: number, maxSize: number): Promise<string> {
+  if (typeof document === 'undefined' || /^data:image\/(gif|svg)/.test(dataUrl)) return dataUrl;
+  try {
+    const image = await decodeImage(dataUrl);
+    const scale = Math.min(1, maxSize / Math.max(image.naturalWidth, image.naturalHeight));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(image.naturalWidth * scale));
+    canvas.height = Math.max(1, Math.round(image.naturalHeight * scale));
+    const context = canvas.getContext('2d');
+    if (!context) return dataUrl;
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+    // Browsers that can't encode WebP hand back a PNG instead
+    const compressed = canvas.toDataURL('image/webp', quality);
+    return compressed.startsWith('data:image/webp') && compressed.length < dataUrl.length ? compressed : dataUrl;
+  } catch (error) {
+    console.warn('Could not compress image, keeping the original:', error);
+    return dataUrl;
+  }
+}
+
+// Compresses an image once, as it enters the store, harder the larger it is
+function optimizeImage(dataUrl: string): Promise<string> {
+  if (dataUrl.length > LARGE_IMAGE_SIZE * 4) return compressImage(dataUrl, 0.3, 800);
+  if (dataUrl.length > LARGE_IMAGE_SIZE) return compressImage(dataUrl, 0.5, 1000);
+  return compressImage(dataUrl, 0.7, 1200);
+}
+
+function dataUrlBytes(dataUrl: string): Uint8Array {
+  const comma = dataUrl.indexOf(',');
+  const data = dataUrl.slice(comma + 1);
+  if (dataUrl.slice(0, comma).endsWith(';base64')) {
+    return Uint8Array.from(atob(data), char => char.charCodeAt(0));
+  }
+  return new TextEncoder().encode(decodeURIComponent(data));
+}
+
+// SHA-256 of the image bytes as hex, or null where Web Crypto isn't available (insecure origins)
+async function hashImage(dataUrl: string): Promise<string | null> {
+  if (typeof crypto === 'undefined' || !crypto.subtle) return null;
+  const digest = await crypto.subtle.digest('SHA-256', dataUrlBytes(dataUrl));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Puts an inline image in the store and returns the reference to use in its place
+ * Content that is already stored isn't written again. Links and existing references are returned as is,
+ * and where the content can't be hashed the image stays inline
+ */
+export async function storeImage(src: string): Promise<string> {
+  if (!src.startsWith('data:image')) return src;
+  const dataUrl = await optimizeImage(src);
+  const hash = await hashImage(dataUrl);
+  if (!hash) return dataUrl;
+  if (!cache.has(hash)) {
+    await putImage({ hash, dataUrl, createdAt: new Date() });
+    cache.set(hash, dataUrl);
+  }
+  return toImageRef(hash);
+}
+
+/**
+ * Moves inline images in the questions into the store, swapping them for references
+ * `bundled` resolves references from an imported bundle, which are re-hashed rather than trusted
+ */
+export async function internQuestionImages<Q extends Question>(
+  questions: readonly Q[],
+  bundled: Record<string, string> = {}
+): Promise<Q[]> {
+  const replacements = new Map<string, string>();
+  for (const question of questions) {
+    for (const src of [...(question.questionImages || []), ...(question.answerImages || [])]) {
+      if (replacements.has(src)) continue;
+      const hash = getImageHash(src);
+      const inline = hash ? bundled[hash] : src;
+      // References to images this device already has (or that the bundle didn't include) are kept
+      replacements.set(src, inline ? await storeImage(inline) : src);
+    }
+  }
+  return mapQuestionImages(questions, src => replacements.get(src) ?? src);
+}
+
+/**
+ * Deletes stored images no question uses any more
+ * Only run when nothing else can hold references, e.g. on load before the editor has anything in it
+ * Returns how many images were removed
+ */
+export async function collectImageGarbage(quizzes: readonly QuizWithQuestions[]): Promise<number> {
+  const referenced = collectImageHashes(quizzes.flatMap(quiz => quiz.questions));
+  const unused = Array.from(cache.keys()).filter(hash => !referenced.has(hash));
+  await deleteImages(unused);
+  unused.forEach(hash => cache.delete(hash));
+  return unused.length;
+}
+
+/**
+ * Wraps quizzes for export or sharing along with the stored images they reference
+ */
+export function bundleQuizzes<T extends QuizWithQuestions>(quizzes: readonly T[]): QuizBundle<T> {
+  const images: Record<string, string> = {};
+  collectImageHashes(quizzes.flatMap(quiz => quiz.questions)).forEach(hash => {
+    const dataUrl = cache.get(hash);
+    if (dataUrl) images[hash] = dataUrl;
+  });
+  return { format: BUNDLE_FORMAT, version: BUNDLE_VERSION, quizzes: [...quizzes], images };
+}
+
+export function isQuizBundle(data: unknown): data is QuizBundle<unknown> {
+  return typeof data === 'object' && data !== null &&
+    (data as QuizBundle<unknown>).format === BUNDLE_FORMAT &&
+    Array.isArray((data as QuizBundle<unknown>).quizzes);
+}
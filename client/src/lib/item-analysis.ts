@@ -0,0 +1,119 @@
+import type { Question, QuizAttempt } from "@shared/schema"
+import { resolveResultQuestion } from "./attempt"
+import { getCorrectAnswer, isAnswered, usesOptions } from "./questions"
+import { getScorePercentage } from "./scoring"
+
+// Fewer responses than this and the statistics are too noisy to flag anything
+export const MIN_RESPONSES = 5;
+
+// Share of attempts in the top and bottom groups for the discrimination index (the classic 27%)
+const GROUP_FRACTION = 0.27;
+
+export type ItemFlag = 'too-hard' | 'too-easy' | 'negative-discrimination' | 'low-discrimination' | 'distractor-beats-key';
+
+export type DistractorStats = {
+  option: string;
+  isCorrect: boolean;
+  count: number;
+  fraction: number; // Of all responses to the question, blanks included
+};
+
+export type ItemStats = {
+  questionIndex: number;
+  responses: number;
+  unanswered: number;
+  difficulty: number; // p-value: average credit, 0 (nobody right) to 1 (everybody right)
+  discrimination?: number; // Top group's p-value minus the bottom group's; undefined with too few attempts
+  distractors: DistractorStats[]; // Choice questions only
+  averageTime?: number; // Seconds; undefined when no attempt recorded times
+  flags: ItemFlag[];
+};
+
+type Response = {
+  credit: number;
+  answer: string | string[];
+  timeSpent?: number;
+  attemptScore: number; // Percentage for the whole attempt, to rank learners
+};
+
+/**
+ * Classical item analysis over a quiz's exam history
+ * Practice runs are left out because learners see the answers as they go
+ */
+export function analyzeItems(questions: readonly Question[], history: readonly QuizAttempt[] = []): ItemStats[] {
+  const responses: Response[][] = questions.map(() => []);
+
+  history
+    .filter(attempt => attempt.mode !== 'practice' && attempt.questionResults)
+    .forEach(attempt => {
+      const attemptScore = getScorePercentage(attempt);
+      attempt.questionResults!.forEach((result, position) => {
+        const index = resolveResultQuestion(questions, attempt, position);
+        if (index === -1) return;
+        responses[index].push({
+          credit: result.credit ?? (result.isCorrect ? 1 : 0),
+          answer: result.userAnswer,
+          timeSpent: result.timeSpent,
+          attemptScore
+        });
+      });
+    });
+
+  return questions.map((question, questionIndex) => analyzeItem(question, questionIndex, responses[questionIndex]));
+}
+
+function averageCredit(responses: readonly Response[]): number {
+  return responses.length > 0 ? responses.reduce((sum, response) => sum + response.credit, 0) / responses.length : 0;
+}
+
+function analyzeItem(question: Question, questionIndex: number, responses: Response[]): ItemStats {
+  const difficulty = averageCredit(responses);
+
+  let discrimination: number | undefined;
+  const groupSize = Math.round(responses.length * GROUP_FRACTION);
+  if (groupSize > 0 && responses.length >= MIN_RESPONSES) {
+    const ranked = [...responses].sort((a, b) => b.attemptScore - a.attemptScore);
+    discrimination = averageCredit(ranked.slice(0, groupSize)) - averageCredit(ranked.slice(-groupSize));
+  }
+
+  const timed = responses.filter(response => response.timeSpent !== undefined);
+  const averageTime = timed.length > 0
+    ? timed.reduce((sum, response) => sum + response.timeSpent!, 0) / timed.length
+    : undefined;
+
+  const correct = getCorrectAnswer(question);
+  const distractors: DistractorStats[] = usesOptions(question)
+    ? question.options.map(option => {
+        const count = responses.filter(response =>
+          Array.isArray(response.answer) ? response.answer.includes(option) : response.answer === option
+        ).length;
+        return {
+          option,
+          isCorrect: Array.isArray(correct) ? correct.includes(option) : correct === option,
+          count,
+          fraction: responses.length > 0 ? count / responses.length : 0
+        };
+      })
+    : [];
+
+  const flags: ItemFlag[] = [];
+  if (responses.length >= MIN_RESPONSES) {
+    if (difficulty < 0.2) flags.push('too-hard');
+    if (difficulty > 0.95) flags.push('too-easy');
+    if (discrimination !== undefined && discrimination < 0) flags.push('negative-discrimination');
+    else if (discrimination !== undefined && discrimination < 0.2 && difficulty <= 0.95) flags.push('low-discrimination');
+    const keyCount = Math.max(0, ...distractors.filter(d => d.isCorrect).map(d => d.count));
+    if (distractors.some(d => !d.isCorrect && d.count > keyCount)) flags.push('distractor-beats-key');
+  }
+
+  return {
+    questionIndex,
+    responses: responses.length,
+    unanswered: responses.filter(response => !isAnswered(response.answer)).length,
+    difficulty,
+    discrimination,
+    distractors,
+    averageTime,
+    flags
+  };
+}
@@ -0,0 +1,81 @@
+export type MathSegment =
+  | { type: 'text'; value: string }
+  | { type: 'math'; value: string; displayMode: boolean };
+
+// Delimiters checked in order at each position; $$ must come before $
+const DELIMITERS = [
+  { open: '$$', close: '$$', displayMode: true },
+  { open: '\\[', close: '\\]', displayMode: true },
+  { open: '\\(', close: '\\)', displayMode: false },
+  { open: '$', close: '$', displayMode: false },
+];
+
+/**
+ * Checks whether a single-dollar span looks like math rather than currency
+ * Follows the Pandoc rule: the opening $ must not be followed by whitespace, the closing $
+ * must not be preceded by whitespace or followed by a digit ("$5 and $10" stays text)
+ */
+function isInlineDollarMath(text: string, start: number, end: number): boolean {
+  const content = text.slice(start + 1, end);
+  return content.trim() !== '' &&
+    !/\s/.test(content[0]) &&
+    !/\s/.test(content[content.length - 1]) &&
+    !/\d/.test(text[end + 1] || '');
+}
+
+/**
+ * Splits text into plain and TeX segments
+ * Supports $...$ and \(...\) inline, $$...$$ and \[...\] display math; \$ is a literal dollar sign
+ */
+export function splitMath(text: string): MathSegment[] {
+  const segments: MathSegment[] = [];
+  let buffer = '';
+  let i = 0;
+
+  while (i < text.length) {
+    if (text.startsWith('\\$', i)) {
+      buffer += '$';
+      i += 2;
+      continue;
+    }
+
+    let matched = false;
+    for (const { open, close, displayMode } of DELIMITERS) {
+      if (!text.startsWith(open, i)) continue;
+
+      let end = text.indexOf(close, i + open.length);
+      // Skip escaped closing dollars inside the formula
+      while (end !== -1 && close === '$' && text[end - 1] === '\\') {
+        end = text.indexOf(close, end + 1);
+      }
+      if (end === -1 || end === i + open.length) continue;
+      if (open === '$' && !isInlineDollarMath(text, i, end)) continue;
+
+      if (buffer) {
+        segments.push({ type: 'text', value: buffer });
+        buffer = '';
+      }
+      segments.push({ type: 'math', value: text.slice(i + open.length, end).trim(), displayMode });
+      i = end + close.length;
+      matched = true;
+      break;
+    }
+
+    if (!matched) {
+      buffer += text[i];
+      i++;
+    }
+  }
+
+  if (buffer) {
+    segments.push({ type: 'text', value: buffer });
+  }
+  return segments;
+}
+
+/**
+ * Checks whether text contains any TeX that would be rendered
+ */
+export function containsMath(text: string): boolean {
+  return splitMath(text).some(segment => segment.type === 'math');
+}
@@ -0,0 +1,110 @@
+import type { QuizAttempt } from "@shared/schema"
+import { getScorePercentage } from "./scoring"
+
+/**
+ * The parts of a quiz the progress charts need
+ */
+export type ProgressQuiz = {
+  id: string;
+  title: string;
+  category: string;
+  history?: QuizAttempt[];
+};
+
+/**
+ * One attempt with the quiz it was taken on
+ */
+export type ProgressEntry = {
+  quizId: string;
+  quizTitle: string;
+  category: string;
+  attempt: QuizAttempt;
+  date: Date;
+};
+
+export type ProgressFilters = {
+  from?: Date;
+  to?: Date; // Inclusive - the whole day counts
+  categories: string[]; // Empty for every category
+};
+
+/**
+ * Local calendar day of a date as YYYY-MM-DD, used to group attempts by day
+ */
+export function toDayKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+/**
+ * Attempts from every quiz that match the filters, oldest first
+ */
+export function getProgressEntries(quizzes: readonly ProgressQuiz[], filters: ProgressFilters): ProgressEntry[] {
+  const to = filters.to ? new Date(filters.to.getFullYear(), filters.to.getMonth(), filters.to.getDate() + 1) : undefined;
+  return quizzes
+    .filter(quiz => filters.categories.length === 0 || filters.categories.includes(quiz.category))
+    .flatMap(quiz => (quiz.history || []).map(attempt => ({
+      quizId: quiz.id,
+      quizTitle: quiz.title,
+      category: quiz.category,
+      attempt,
+      date: new Date(attempt.date)
+    })))
+    .filter(entry => (!filters.from || entry.date >= filters.from) && (!to || entry.date < to))
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+/**
+ * Exam scores over time, one row per attempt with the score under that quiz's id
+ * Practice runs are left out since learners see the answers as they go
+ */
+export function getScoreSeries(entries: readonly ProgressEntry[]): Array<{ date: number } & Record<string, number>> {
+  return entries
+    .filter(entry => entry.attempt.mode !== 'practice')
+    .map(entry => ({ date: entry.date.getTime(), [entry.quizId]: Math.round(getScorePercentage(entry.attempt)) }) as { date: number } & Record<string, number>);
+}
+
+/**
+ * Average exam score per category
+ */
+export function getCategoryMastery(entries: readonly ProgressEntry[]): Array<{ category: string; mastery: number; attempts: number }> {
+  const totals = new Map<string, { sum: number; attempts: number }>();
+  entries
+    .filter(entry => entry.attempt.mode !== 'practice')
+    .forEach(entry => {
+      const total = totals.get(entry.category) || { sum: 0, attempts: 0 };
+      totals.set(entry.category, { sum: total.sum + getScorePercentage(entry.attempt), attempts: total.attempts + 1 });
+    });
+  return Array.from(totals, ([category, { sum, attempts }]) => ({ category, mastery: Math.round(sum / attempts), attempts }));
+}
+
+/**
+ * Minutes spent on quizzes per day, exams and practice separately
+ */
+export function getTimeSpentByDay(entries: readonly ProgressEntry[]): Array<{ day: string; exam: number; practice: number }> {
+  const days = new Map<string, { exam: number; practice: number }>();
+  entries.forEach(entry => {
+    const day = toDayKey(entry.date);
+    const totals = days.get(day) || { exam: 0, practice: 0 };
+    const minutes = entry.attempt.timeSpent / 60;
+    if (entry.attempt.mode === 'practice') totals.practice += minutes;
+    else totals.exam += minutes;
+    days.set(day, totals);
+  });
+  return Array.from(days, ([day, { exam, practice }]) => ({
+    day,
+    exam: Math.round(exam * 10) / 10,
+    practice: Math.round(practice * 10) / 10
+  }));
+}
+
+/**
+ * Number of attempts per day, keyed by toDayKey
+ */
+export function getActivityByDay(entries: readonly ProgressEntry[]): Map<string, number> {
+  const activity = new Map<string, number>();
+  entries.forEach(entry => {
+    const day = toDayKey(entry.date);
+    activity.set(day, (activity.get(day) || 0) + 1);
+  });
+  return activity;
+}
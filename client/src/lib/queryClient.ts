@@ -7,22 +7,40 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// The server rejects changes without the session's CSRF token; fetched once, replaced when logging in or out
+let csrfToken: string | null = null;
+
+export function setCsrfToken(token: string | null) {
+  csrfToken = token;
+}
+
+async function getCsrfToken(): Promise<string> {
+  if (!csrfToken) {
+    const res = await fetch("/api/auth/csrf", { credentials: "include" });
+    await throwIfResNotOk(res);
+    csrfToken = (await res.json()).csrfToken as string;
+  }
+  return csrfToken;
+}
+
 export async function apiRequest(
   endpoint: string,
   options?: RequestInit,
 ): Promise<Response> {
   const method = options?.method || 'GET';
   const headers = {
-    ...(options?.body ? { "Content-Type": "application/json" } : {}),
+    // Form data sets its own multipart content type
+    ...(typeof options?.body === 'string' ? { "Content-Type": "application/json" } : {}),
+    ...(method !== 'GET' && method !== 'HEAD' ? { "X-CSRF-Token": await getCsrfToken() } : {}),
     ...(options?.headers || {})
   };
   
   const res = await fetch(endpoint, {
-    method,
-    headers,
     body: options?.body,
     credentials: "include",
-    ...options
+    ...options,
+    method,
+    headers
   });
 
   await throwIfResNotOk(res);
@@ -0,0 +1,131 @@
+import { describe, expect, it } from "vitest"
+import type { Question } from "@shared/schema"
+import {
+  convertQuestionType, createEmptyQuestion, createInitialAnswer, describeAnswer, finalizeQuestion, formatNumericAnswer,
+  getCorrectAnswer, getQuestionIssue, getSubmittedAnswer, isAnswered, isQuestionBlank
+} from "./questions"
+
+function question(fields: Partial<Question>): Question {
+  return {
+    question: 'Question',
+    answerDescription: '',
+    options: [],
+    correctAnswer: '',
+    questionImages: [],
+    answerImages: [],
+    ...fields
+  };
+}
+
+describe("createEmptyQuestion", () => {
+  it("starts choice questions with four empty options and a fresh id", () => {
+    const first = createEmptyQuestion();
+    expect(first.options).toEqual(['', '', '', '']);
+    expect(first.id).toBeTruthy();
+    expect(createEmptyQuestion().id).not.toBe(first.id);
+  });
+
+  it("is blank until something is filled in", () => {
+    expect(isQuestionBlank(createEmptyQuestion())).toBe(true);
+    expect(isQuestionBlank({ ...createEmptyQuestion(), question: 'Why?' })).toBe(false);
+  });
+});
+
+describe("convertQuestionType", () => {
+  it("drops the answer fields of the previous kind", () => {
+    const multiple = question({ type: 'multiple', options: ['a', 'b'], correctAnswers: ['a'], partialCredit: 'proportional' });
+    const single = convertQuestionType(multiple, 'single');
+    expect(single.type).toBe('single');
+    expect(single.correctAnswers).toBeUndefined();
+    expect(single.partialCredit).toBeUndefined();
+  });
+});
+
+describe("getQuestionIssue", () => {
+  it("asks for the question text first", () => {
+    expect(getQuestionIssue(question({ question: ' ', options: ['a', 'b'], correctAnswer: 'a' }))).toBe("enter the question text");
+  });
+
+  it("checks choice questions have filled options and a correct answer", () => {
+    expect(getQuestionIssue(question({ options: ['a'], correctAnswer: 'a' }))).toBe("use between 2 and 8 options");
+    expect(getQuestionIssue(question({ options: ['a', ''], correctAnswer: 'a' }))).toBe("fill in every option or remove the empty ones");
+    expect(getQuestionIssue(question({ options: ['a', 'b'] }))).toBe("select the correct answer");
+    expect(getQuestionIssue(question({ type: 'multiple', options: ['a', 'b'], correctAnswers: [] }))).toBe("tick at least one correct answer");
+    expect(getQuestionIssue(question({ options: ['a', 'b'], correctAnswer: 'b' }))).toBeNull();
+  });
+
+  it("needs an accepted answer or pattern for typed answers, and reports invalid patterns", () => {
+    expect(getQuestionIssue(question({ type: 'text', acceptedAnswers: [' '] }))).toBe("add at least one accepted answer");
+    expect(getQuestionIssue(question({ type: 'text', acceptedPatterns: ['colou?r'] }))).toBeNull();
+    expect(getQuestionIssue(question({ type: 'text', acceptedAnswers: ['x'], acceptedPatterns: ['('] })))
+      .toMatch(/^fix the pattern "\(" \(.+\)$/);
+  });
+
+  it("checks ordering items and matching pairs are filled in and distinct", () => {
+    expect(getQuestionIssue(question({ type: 'ordering', options: ['a', 'a'] }))).toBe("make every item different");
+    expect(getQuestionIssue(question({ type: 'matching', pairs: [{ left: 'x', right: 'X' }, { left: 'y', right: '' }] })))
+      .toBe("fill in both sides of at least two pairs");
+  });
+
+  it("needs a value for numeric questions", () => {
+    expect(getQuestionIssue(question({ type: 'numeric' }))).toBe("enter the correct value");
+    expect(getQuestionIssue(question({ type: 'numeric', numericAnswer: { value: 0 } }))).toBeNull();
+  });
+});
+
+describe("finalizeQuestion", () => {
+  it("drops blank accepted answers, patterns and pairs", () => {
+    const text = finalizeQuestion(question({ type: 'text', acceptedAnswers: [' Paris ', ''], acceptedPatterns: ['', 'x+'] }));
+    expect(text.acceptedAnswers).toEqual(['Paris']);
+    expect(text.acceptedPatterns).toEqual(['x+']);
+
+    const matching = finalizeQuestion(question({ type: 'matching', pairs: [{ left: 'x', right: 'X' }, { left: ' ', right: '' }] }));
+    expect(matching.pairs).toEqual([{ left: 'x', right: 'X' }]);
+  });
+});
+
+describe("answers", () => {
+  it("starts ordering questions shuffled away from the correct order", () => {
+    const ordering = question({ type: 'ordering', options: ['1', '2', '3'] });
+    const initial = createInitialAnswer(ordering);
+    expect([...initial].sort()).toEqual(['1', '2', '3']);
+    expect(initial).not.toEqual(['1', '2', '3']);
+  });
+
+  it("starts matching rows unmatched and other kinds blank", () => {
+    expect(createInitialAnswer(question({ type: 'matching', pairs: [{ left: 'x', right: 'X' }, { left: 'y', right: 'Y' }] })))
+      .toEqual(['', '']);
+    expect(createInitialAnswer(question({ type: 'multiple' }))).toEqual([]);
+    expect(createInitialAnswer(question({}))).toBe('');
+  });
+
+  it("scores an ordering answer only once the learner has changed it", () => {
+    const ordering = question({ type: 'ordering', options: ['1', '2', '3'] });
+    expect(getSubmittedAnswer(ordering, ['2', '1', '3'], false)).toBeUndefined();
+    expect(getSubmittedAnswer(ordering, ['2', '1', '3'], true)).toEqual(['2', '1', '3']);
+    expect(getSubmittedAnswer(question({ options: ['a', 'b'] }), 'a', false)).toBe('a');
+  });
+
+  it("treats empty strings and lists as unanswered", () => {
+    expect(isAnswered(undefined)).toBe(false);
+    expect(isAnswered(' ')).toBe(false);
+    expect(isAnswered(['', ' '])).toBe(false);
+    expect(isAnswered(['', 'a'])).toBe(true);
+  });
+
+  it("gives the expected answer in the shape of a learner's answer", () => {
+    expect(getCorrectAnswer(question({ type: 'multiple', correctAnswers: ['a', 'c'] }))).toEqual(['a', 'c']);
+    expect(getCorrectAnswer(question({ type: 'text', acceptedAnswers: [''], acceptedPatterns: ['x+'] }))).toBe('x+');
+    expect(getCorrectAnswer(question({ type: 'matching', pairs: [{ left: 'x', right: 'X' }] }))).toEqual(['X']);
+  });
+
+  it("spells out matching answers for history", () => {
+    const matching = question({ type: 'matching', pairs: [{ left: 'x', right: 'X' }, { left: 'y', right: 'Y' }] });
+    expect(describeAnswer(matching, ['Y', ''])).toEqual(['x → Y', 'y → ?']);
+  });
+
+  it("formats numeric answers with their unit and tolerance", () => {
+    expect(formatNumericAnswer({ value: 9.8, units: ['m/s²'], tolerance: 2, toleranceType: 'relative' })).toBe('9.8 m/s² (± 2%)');
+    expect(formatNumericAnswer({ value: 3, tolerance: 0.5 })).toBe('3 (± 0.5)');
+  });
+});
@@ -0,0 +1,328 @@
+import type { Answer, NumericAnswer, Question, QuestionType } from "@shared/schema"
+import { getAnswerPatternError } from "@shared/answer-patterns"
+import { v4 as uuidv4 } from "uuid"
+import { shuffleAwayFromOriginal } from "./shuffle"
+
+// Choice questions can have between two and eight options
+export const MIN_OPTIONS = 2;
+export const MAX_OPTIONS = 8;
+
+// Fixed options of a True/False question
+export const BOOLEAN_OPTIONS = ['True', 'False'];
+
+/**
+ * Creates a blank question for the editor
+ * Choice questions start with four empty option slots
+ */
+export function createEmptyQuestion(type: QuestionType = 'single'): Question {
+  return convertQuestionType({
+    id: uuidv4(),
+    question: '',
+    answerDescription: '',
+    options: ['', '', '', ''],
+    correctAnswer: '',
+    questionImages: [],
+    answerImages: [],
+  }, type);
+}
+
+/**
+ * Returns the question kind, treating legacy questions without a type as single-answer
+ */
+export function getQuestionType(question: Question): QuestionType {
+  return question.type || 'single';
+}
+
+/**
+ * Checks whether a question kind is answered by picking from its options
+ */
+export function usesOptions(question: Question): boolean {
+  const type = getQuestionType(question);
+  return type === 'single' || type === 'multiple' || type === 'boolean';
+}
+
+/**
+ * Checks whether picking a single option completes the answer (single choice and True/False)
+ * Practice mode marks these straight away; other kinds need an explicit "Check Answer"
+ */
+export function isAnsweredOnSelect(question: Question): boolean {
+  const type = getQuestionType(question);
+  return type === 'single' || type === 'boolean';
+}
+
+/**
+ * Changes a question's kind, carrying over whatever answer data still applies
+ * and dropping the fields that belong to the previous kind
+ */
+export function convertQuestionType(question: Question, type: QuestionType): Question {
+  const { correctAnswers, partialCredit, numericAnswer, acceptedAnswers, acceptedPatterns, pairs, ...base } = question;
+  const options = base.options.length > 0 ? base.options : ['', '', '', ''];
+
+  switch (type) {
+    case 'multiple':
+      return {
+        ...base,
+        type,
+        options,
+        correctAnswers: correctAnswers || (base.correctAnswer ? [base.correctAnswer] : []),
+        partialCredit: partialCredit || 'all-or-nothing',
+      };
+    case 'numeric':
+      return {
+        ...base,
+        type,
+        options: [],
+        correctAnswer: '',
+        numericAnswer: numericAnswer || { value: NaN, tolerance: 0, toleranceType: 'absolute' },
+      };
+    case 'text':
+      return {
+        ...base,
+        type,
+        options: [],
+        correctAnswer: '',
+        acceptedAnswers: acceptedAnswers || (base.correctAnswer ? [base.correctAnswer] : ['']),
+        acceptedPatterns: acceptedPatterns || [],
+      };
+    case 'boolean':
+      return {
+        ...base,
+        type,
+        options: BOOLEAN_OPTIONS,
+        correctAnswer: BOOLEAN_OPTIONS.includes(base.correctAnswer) ? base.correctAnswer : '',
+      };
+    case 'ordering':
+      return {
+        ...base,
+        type,
+        options: base.options.length >= 2 ? base.options : ['', '', ''],
+        correctAnswer: '',
+      };
+    case 'matching':
+      return {
+        ...base,
+        type,
+        options: [],
+        correctAnswer: '',
+        pairs: pairs || [{ left: '', right: '' }, { left: '', right: '' }],
+      };
+    default:
+      return {
+        ...base,
+        type,
+        options,
+        correctAnswer: base.correctAnswer || correctAnswers?.[0] || '',
+      };
+  }
+}
+
+/**
+ * Checks whether an editor question was left completely empty
+ * Blank questions are skipped on save instead of being reported as errors
+ */
+export function isQuestionBlank(question: Question): boolean {
+  return question.question.trim() === '' &&
+    question.answerDescription.trim() === '' &&
+    question.questionImages.length === 0 &&
+    (getQuestionType(question) === 'boolean' || question.options.every(opt => opt.trim() === ''));
+}
+
+/**
+ * Describes what is missing from a question in the editor, or returns null if it can be saved
+ */
+export function getQuestionIssue(question: Question): string | null {
+  if (question.question.trim() === '') {
+    return "enter the question text";
+  }
+
+  switch (getQuestionType(question)) {
+    case 'boolean':
+      return BOOLEAN_OPTIONS.includes(question.correctAnswer) ? null : "choose True or False as the correct answer";
+    case 'numeric':
+      return question.numericAnswer && Number.isFinite(question.numericAnswer.value)
+        ? null
+        : "enter the correct value";
+    case 'text': {
+      const patterns = (question.acceptedPatterns || []).map(pattern => pattern.trim()).filter(pattern => pattern !== '');
+      const invalidPattern = patterns.find(pattern => getAnswerPatternError(pattern) !== null);
+      if (invalidPattern !== undefined) {
+        return `fix the pattern "${invalidPattern}" (${getAnswerPatternError(invalidPattern)})`;
+      }
+      return (question.acceptedAnswers || []).some(answer => answer.trim() !== '') || patterns.length > 0
+        ? null
+        : "add at least one accepted answer";
+    }
+    case 'ordering':
+      if (question.options.length < 2 || !question.options.every(item => item.trim() !== '')) {
+        return "fill in at least two items";
+      }
+      return new Set(question.options).size === question.options.length ? null : "make every item different";
+    case 'matching': {
+      const pairs = question.pairs || [];
+      if (pairs.length < 2 || !pairs.every(pair => pair.left.trim() !== '' && pair.right.trim() !== '')) {
+        return "fill in both sides of at least two pairs";
+      }
+      return new Set(pairs.map(pair => pair.left)).size === pairs.length ? null : "make every Column A item different";
+    }
+    default: {
+      if (question.options.length < MIN_OPTIONS || question.options.length > MAX_OPTIONS) {
+        return `use between ${MIN_OPTIONS} and ${MAX_OPTIONS} options`;
+      }
+      if (!question.options.every(opt => opt.trim() !== '')) {
+        return "fill in every option or remove the empty ones";
+      }
+      if (getQuestionType(question) === 'multiple') {
+        const correctAnswers = question.correctAnswers || [];
+        return correctAnswers.length > 0 && correctAnswers.every(answer => question.options.includes(answer))
+          ? null
+          : "tick at least one correct answer";
+      }
+      return question.options.includes(question.correctAnswer) ? null : "select the correct answer";
+    }
+  }
+}
+
+/**
+ * Checks whether a question in the editor has everything it needs to be saved
+ */
+export function isQuestionComplete(question: Question): boolean {
+  return getQuestionIssue(question) === null;
+}
+
+/**
+ * Tidies a question from the editor before it is saved, dropping blank entries
+ * left over from list inputs
+ */
+export function finalizeQuestion(question: Question): Question {
+  switch (getQuestionType(question)) {
+    case 'text':
+      return {
+        ...question,
+        acceptedAnswers: (question.acceptedAnswers || []).map(answer => answer.trim()).filter(answer => answer !== ''),
+        acceptedPatterns: (question.acceptedPatterns || []).map(pattern => pattern.trim()).filter(pattern => pattern !== ''),
+      };
+    case 'matching':
+      return {
+        ...question,
+        pairs: (question.pairs || []).filter(pair => pair.left.trim() !== '' || pair.right.trim() !== ''),
+      };
+    default:
+      return question;
+  }
+}
+
+/**
+ * Returns the distinct right-hand items learners choose from in a matching question
+ */
+export function getMatchChoices(question: Question): string[] {
+  return Array.from(new Set((question.pairs || []).map(pair => pair.right)));
+}
+
+/**
+ * Builds the answer a learner starts from when a question is first shown
+ * Ordering items start shuffled, matching rows start unmatched, everything else starts blank
+ */
+export function createInitialAnswer(question: Question): Answer {
+  switch (getQuestionType(question)) {
+    case 'ordering':
+      return shuffleAwayFromOriginal(question.options);
+    case 'matching':
+      return (question.pairs || []).map(() => '');
+    case 'multiple':
+      return [];
+    default:
+      return '';
+  }
+}
+
+/**
+ * Formats the expected value of a numeric question, e.g. "9.8 m/s² (± 2%)"
+ */
+export function formatNumericAnswer(numericAnswer: NumericAnswer): string {
+  let text = String(numericAnswer.value);
+  if (numericAnswer.units && numericAnswer.units.length > 0) {
+    text += ` ${numericAnswer.units[0]}`;
+  }
+  if (numericAnswer.tolerance) {
+    text += numericAnswer.toleranceType === 'relative'
+      ? ` (± ${numericAnswer.tolerance}%)`
+      : ` (± ${numericAnswer.tolerance})`;
+  }
+  return text;
+}
+
+/**
+ * Returns the expected answer in the same shape as a learner's answer
+ */
+export function getCorrectAnswer(question: Question): Answer {
+  switch (getQuestionType(question)) {
+    case 'multiple':
+      return question.correctAnswers || [];
+    case 'numeric':
+      return question.numericAnswer ? formatNumericAnswer(question.numericAnswer) : '';
+    case 'text':
+      return (question.acceptedAnswers || []).find(answer => answer.trim() !== '') ||
+        (question.acceptedPatterns || [])[0] || '';
+    case 'ordering':
+      return question.options;
+    case 'matching':
+      return (question.pairs || []).map(pair => pair.right);
+    default:
+      return question.correctAnswer;
+  }
+}
+
+/**
+ * Turns an answer into a self-describing form for history, where the question itself
+ * is no longer at hand - matching answers become "left → right" entries
+ */
+export function describeAnswer(question: Question, answer: Answer | undefined): Answer {
+  if (getQuestionType(question) === 'matching' && Array.isArray(answer)) {
+    return (question.pairs || []).map((pair, i) => `${pair.left} → ${answer[i] || '?'}`);
+  }
+  return answer || '';
+}
+
+/**
+ * The answer to score for a question
+ * Ordering questions start out shuffled, so their order only counts once the learner has changed it
+ * (or checked it in practice mode); until then they are unanswered
+ */
+export function getSubmittedAnswer(question: Question, answer: Answer | undefined, changed: boolean): Answer | undefined {
+  return getQuestionType(question) === 'ordering' && !changed ? undefined : answer;
+}
+
+/**
+ * Checks whether the learner gave any answer at all
+ */
+export function isAnswered(answer: Answer | undefined): boolean {
+  if (Array.isArray(answer)) {
+    return answer.some(item => item.trim() !== '');
+  }
+  return !!answer && answer.trim() !== '';
+}
+
+/**
+ * Checks whether an option is part of the expected answer
+ */
+export function isCorrectOption(question: Question, option: string): boolean {
+  const correctAnswer = getCorrectAnswer(question);
+  return Array.isArray(correctAnswer) ? correctAnswer.includes(option) : correctAnswer === option;
+}
+
+/**
+ * Checks whether the learner picked a given option
+ */
+export function isOptionSelected(answer: Answer | undefined, option: string): boolean {
+  return Array.isArray(answer) ? answer.includes(option) : answer === option;
+}
+
+/**
+ * Formats an answer for display in results and history
+ */
+export function formatAnswer(answer: Answer | undefined): string {
+  if (Array.isArray(answer)) {
+    return answer.join(', ');
+  }
+  return answer || '';
+}
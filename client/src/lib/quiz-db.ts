@@ -0,0 +1,282 @@
+import type { QuizAttempt } from "@shared/schema"
+import { v4 as uuidv4 } from "uuid"
+
+const DB_NAME = 'bmv-quiz';
+
+/**
+ * Bump when the object stores change, and add the step to upgradeDatabase
+ */
+export const DB_VERSION = 2;
+
+const QUIZZES = 'quizzes';
+const ATTEMPTS = 'attempts';
+const IMAGES = 'images';
+const META = 'meta';
+
+// localStorage key the quizzes lived under before IndexedDB, chunked as `${key}_chunk_N` when large
+const LEGACY_KEY = 'quizzes';
+const MIGRATED_FLAG = 'migratedFromLocalStorage';
+
+/**
+ * The parts of a quiz the store needs; everything else is stored as is
+ * Dates survive the round trip since IndexedDB uses structured cloning, not JSON
+ */
+export type StoredQuiz = {
+  id: string;
+  history?: QuizAttempt[];
+};
+
+/**
+ * An image kept once under the hash of its content, however many questions use it
+ */
+export type StoredImage = {
+  hash: string;
+  dataUrl: string;
+  createdAt: Date;
+};
+
+// Attempts are kept apart from their quiz so the quiz record doesn't grow with every attempt
+type AttemptRecord = {
+  quizId: string;
+  position: number; // Index in the quiz's history
+  attempt: QuizAttempt;
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * The id a quiz coming from outside (an import, or the old localStorage copy) is stored under:
+ * its own, unless a stored quiz (or one earlier in the same batch) has it, or it has none.
+ * Quizzes and their attempts are keyed by id, so two quizzes sharing one would overwrite each other
+ */
+export function claimQuizId(id: string | undefined, usedIds: Set<string>): string {
+  const claimed = id && !usedIds.has(id) ? id : uuidv4();
+  usedIds.add(claimed);
+  return claimed;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Resolves once the transaction has committed, not just when its requests succeed
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+  });
+}
+
+// Runs every upgrade step between the stored version and DB_VERSION, oldest first
+function upgradeDatabase(db: IDBDatabase, oldVersion: number): void {
+  if (oldVersion < 1) {
+    db.createObjectStore(QUIZZES, { keyPath: 'id' });
+    db.createObjectStore(ATTEMPTS, { keyPath: ['quizId', 'position'] });
+    db.createObjectStore(META);
+  }
+  if (oldVersion < 2) {
+    db.createObjectStore(IMAGES, { keyPath: 'hash' });
+  }
+}
+
+/**
+ * Opens the database, creating or upgrading it as needed
+ * The connection is shared; a failed open is retried on the next call
+ */
+export function openQuizDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => upgradeDatabase(request.result, event.oldVersion);
+      request.onsuccess = () => {
+        const db = request.result;
+        // Another tab opened a newer version - let it upgrade, and reopen on the next call
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => console.warn('Quiz database upgrade is waiting for other tabs to close');
+    }).catch(error => {
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Every stored quiz with its history put back in order
+ */
+export async function loadQuizzes<T extends StoredQuiz>(): Promise<T[]> {
+  const db = await openQuizDb();
+  const transaction = db.transaction([QUIZZES, ATTEMPTS], 'readonly');
+  const [quizzes, attempts] = await Promise.all([
+    requestToPromise(transaction.objectStore(QUIZZES).getAll() as IDBRequest<T[]>),
+    requestToPromise(transaction.objectStore(ATTEMPTS).getAll() as IDBRequest<AttemptRecord[]>)
+  ]);
+
+  // Records come back sorted by key, so each quiz's attempts are already in position order
+  const history = new Map<string, QuizAttempt[]>();
+  attempts.forEach(record => {
+    const list = history.get(record.quizId) || [];
+    list.push(record.attempt);
+    history.set(record.quizId, list);
+  });
+  return quizzes.map(quiz => ({ ...quiz, history: history.get(quiz.id) || [] }));
+}
+
+// A quiz's attempts from `from` on
+function attemptRange(quizId: string, from: number = 0): IDBKeyRange {
+  return IDBKeyRange.bound([quizId, from], [quizId, Infinity]);
+}
+
+// Writes each quiz with its whole history, dropping stored attempts past its end
+function putQuizzes(transaction: IDBTransaction, quizzes: readonly StoredQuiz[]): void {
+  const quizStore = transaction.objectStore(QUIZZES);
+  const attemptStore = transaction.objectStore(ATTEMPTS);
+  quizzes.forEach(({ history = [], ...quiz }) => {
+    quizStore.put(quiz);
+    history.forEach((attempt, position) => {
+      attemptStore.put({ quizId: quiz.id, position, attempt } satisfies AttemptRecord);
+    });
+    attemptStore.delete(attemptRange(quiz.id, history.length));
+  });
+}
+
+/**
+ * Brings the stored quizzes from `previous` (what was last saved) to `quizzes` in one transaction,
+ * so a failed or interrupted save leaves the previous data untouched.
+ * Quizzes are replaced rather than edited in place, so only those that aren't the same object as before are
+ * written, and those no longer listed are deleted with their attempts
+ */
+export async function saveQuizzes<T extends StoredQuiz>(quizzes: readonly T[], previous: readonly T[] = []): Promise<void> {
+  const before = new Map(previous.map(quiz => [quiz.id, quiz]));
+  const changed = quizzes.filter(quiz => before.get(quiz.id) !== quiz);
+  const kept = new Set(quizzes.map(quiz => quiz.id));
+  const removed = previous.filter(quiz => !kept.has(quiz.id));
+  if (changed.length === 0 && removed.length === 0) return;
+
+  const db = await openQuizDb();
+  const transaction = db.transaction([QUIZZES, ATTEMPTS], 'readwrite');
+  const done = transactionDone(transaction);
+  removed.forEach(quiz => {
+    transaction.objectStore(QUIZZES).delete(quiz.id);
+    transaction.objectStore(ATTEMPTS).delete(attemptRange(quiz.id));
+  });
+  putQuizzes(transaction, changed);
+  await done;
+}
+
+export async function loadImages(): Promise<StoredImage[]> {
+  const db = await openQuizDb();
+  return requestToPromise(db.transaction(IMAGES, 'readonly').objectStore(IMAGES).getAll() as IDBRequest<StoredImage[]>);
+}
+
+/**
+ * Stores an image; storing the same content again just replaces the record
+ */
+export async function putImage(image: StoredImage): Promise<void> {
+  const db = await openQuizDb();
+  const transaction = db.transaction(IMAGES, 'readwrite');
+  const done = transactionDone(transaction);
+  transaction.objectStore(IMAGES).put(image);
+  await done;
+}
+
+export async function deleteImages(hashes: readonly string[]): Promise<void> {
+  if (hashes.length === 0) return;
+  const db = await openQuizDb();
+  const transaction = db.transaction(IMAGES, 'readwrite');
+  const done = transactionDone(transaction);
+  const store = transaction.objectStore(IMAGES);
+  hashes.forEach(hash => store.delete(hash));
+  await done;
+}
+
+function readLegacyQuizzes(): unknown[] | null {
+  const value = localStorage.getItem(LEGACY_KEY);
+  if (value === null) return null;
+
+  let json = value;
+  if (value.startsWith('__CHUNKED__')) {
+    const chunks = parseInt(localStorage.getItem(`${LEGACY_KEY}_chunks`) || '0', 10);
+    json = '';
+    for (let i = 0; i < chunks; i++) {
+      const chunk = localStorage.getItem(`${LEGACY_KEY}_chunk_${i}`);
+      if (chunk === null) throw new Error(`Missing chunk ${i} of ${chunks}`);
+      json += chunk;
+    }
+  }
+  const parsed = JSON.parse(json);
+  return Array.isArray(parsed) ? parsed : null;
+}
+
+function removeLegacyQuizzes(): void {
+  const chunks = parseInt(localStorage.getItem(`${LEGACY_KEY}_chunks`) || '0', 10);
+  for (let i = 0; i < chunks; i++) {
+    localStorage.removeItem(`${LEGACY_KEY}_chunk_${i}`);
+  }
+  localStorage.removeItem(`${LEGACY_KEY}_chunks`);
+  localStorage.removeItem(LEGACY_KEY);
+}
+
+/**
+ * Moves quizzes saved by older versions from localStorage (plain or `__CHUNKED__`) into IndexedDB, once
+ * Dates are still ISO strings at this point - revive them when loading, as with any other JSON source.
+ * Very old quizzes may have no id, or share one, so each is given one of its own before it's stored.
+ * The old keys are only removed after the copy has committed, so a failure leaves them to retry next time
+ * Returns how many quizzes were moved
+ */
+export async function migrateFromLocalStorage(): Promise<number> {
+  const db = await openQuizDb();
+  const lookup = db.transaction([QUIZZES, META], 'readonly');
+  const [migrated, storedIds] = await Promise.all([
+    requestToPromise(lookup.objectStore(META).get(MIGRATED_FLAG)),
+    requestToPromise(lookup.objectStore(QUIZZES).getAllKeys())
+  ]);
+  if (migrated) return 0;
+
+  const usedIds = new Set(storedIds.map(String));
+  const quizzes = (readLegacyQuizzes() || []).map(quiz => {
+    const legacy = quiz as Partial<StoredQuiz>;
+    return { ...legacy, id: claimQuizId(legacy.id, usedIds) };
+  });
+  const transaction = db.transaction([QUIZZES, ATTEMPTS, META], 'readwrite');
+  const done = transactionDone(transaction);
+  putQuizzes(transaction, quizzes);
+  transaction.objectStore(META).put(new Date().toISOString(), MIGRATED_FLAG);
+  await done;
+
+  removeLegacyQuizzes();
+  return quizzes.length;
+}
+
+export type StorageEstimate = {
+  usage: number; // Bytes
+  quota: number; // Bytes
+};
+
+/**
+ * How much this site is using of what the browser lets it store, or null where the Storage API isn't available
+ */
+export async function getStorageEstimate(): Promise<StorageEstimate | null> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null;
+  try {
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return quota > 0 ? { usage, quota } : null;
+  } catch (error) {
+    console.error("Failed to estimate storage usage:", error);
+    return null;
+  }
+}
@@ -0,0 +1,135 @@
+import type { Question, QuizAttempt, ReviewCard } from "@shared/schema"
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+export const REVIEW_GRADES: readonly ReviewGrade[] = ['again', 'hard', 'good', 'easy'];
+
+const DEFAULT_EASE = 2.5;
+const MIN_EASE = 1.3;
+const DAY = 24 * 60 * 60 * 1000;
+
+// SM-2 recall quality (0-5) for each self-graded answer
+const GRADE_QUALITY: Record<ReviewGrade, number> = { again: 1, hard: 3, good: 4, easy: 5 };
+
+/**
+ * A new card for a missed question, due straight away
+ */
+export function createReviewCard(
+  { questionId, questionIndex, question }: Pick<ReviewCard, 'questionId' | 'questionIndex' | 'question'>,
+  now: Date = new Date()
+): ReviewCard {
+  return {
+    ...(questionId && { questionId }),
+    questionIndex,
+    question,
+    easeFactor: DEFAULT_EASE,
+    interval: 0,
+    repetitions: 0,
+    lapses: 0,
+    due: now.toISOString()
+  };
+}
+
+/**
+ * Reschedules a card after a review using SM-2
+ * A forgotten card starts over at one day; recalled cards go 1 day, 6 days, then grow by the ease factor.
+ * As in Anki, "hard" grows the interval more slowly and "easy" a little faster
+ */
+export function scheduleReview(card: ReviewCard, grade: ReviewGrade, now: Date = new Date()): ReviewCard {
+  const quality = GRADE_QUALITY[grade];
+  const easeFactor = Math.max(MIN_EASE, card.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)));
+
+  let interval: number;
+  let repetitions: number;
+  let lapses = card.lapses;
+  if (quality < 3) {
+    interval = 1;
+    repetitions = 0;
+    lapses += card.repetitions > 0 ? 1 : 0;
+  } else {
+    repetitions = card.repetitions + 1;
+    if (card.repetitions === 0) {
+      interval = grade === 'easy' ? 4 : 1;
+    } else if (card.repetitions === 1) {
+      interval = grade === 'hard' ? 3 : 6;
+    } else {
+      const multiplier = grade === 'hard' ? 1.2 : grade === 'easy' ? easeFactor * 1.3 : easeFactor;
+      interval = Math.max(card.interval + 1, Math.round(card.interval * multiplier));
+    }
+  }
+
+  return {
+    ...card,
+    easeFactor,
+    interval,
+    repetitions,
+    lapses,
+    due: new Date(now.getTime() + interval * DAY).toISOString(),
+    lastReviewed: now.toISOString()
+  };
+}
+
+/**
+ * Adds the questions missed in an attempt to a quiz's review cards
+ * A question that already has a card is due again straight away, and counts as a lapse if it had been recalled
+ */
+export function addMissedQuestions(cards: readonly ReviewCard[], attempt: QuizAttempt, now: Date = new Date()): ReviewCard[] {
+  const updated = [...cards];
+  (attempt.questionResults || []).forEach((result, position) => {
+    if (result.isCorrect) return;
+    const questionIndex = attempt.questionOrder?.[position] ?? position;
+    const existing = updated.findIndex(card =>
+      result.questionId && card.questionId
+        ? card.questionId === result.questionId
+        : card.questionIndex === questionIndex && card.question === result.question
+    );
+    if (existing === -1) {
+      updated.push(createReviewCard({ questionId: result.questionId, questionIndex, question: result.question }, now));
+      return;
+    }
+    const card = updated[existing];
+    updated[existing] = {
+      ...card,
+      questionId: card.questionId ?? result.questionId,
+      questionIndex,
+      question: result.question,
+      interval: 0,
+      repetitions: 0,
+      lapses: card.lapses + (card.repetitions > 0 ? 1 : 0),
+      due: now.toISOString()
+    };
+  });
+  return updated;
+}
+
+/**
+ * Finds the question a card was made for, by id so it survives rewording and reordering
+ * Cards without an id fall back to the index and text they were made with; -1 once the question is gone
+ */
+export function findReviewQuestion(questions: readonly Question[], card: ReviewCard): number {
+  if (card.questionId) {
+    return questions.findIndex(question => question.id === card.questionId);
+  }
+  if (questions[card.questionIndex]?.question === card.question) {
+    return card.questionIndex;
+  }
+  return questions.findIndex(question => question.question === card.question);
+}
+
+/**
+ * Cards due any time today count as due, so the queue stays the same all day
+ */
+export function isReviewDue(card: ReviewCard, now: Date = new Date()): boolean {
+  const endOfDay = new Date(now);
+  endOfDay.setHours(23, 59, 59, 999);
+  return new Date(card.due).getTime() <= endOfDay.getTime();
+}
+
+/**
+ * Short label for the wait before a card comes back, e.g. "1d", "2mo"
+ */
+export function formatInterval(days: number): string {
+  if (days < 30) return `${days}d`;
+  if (days < 365) return `${Math.round(days / 30)}mo`;
+  return `${Math.round(days / 365 * 10) / 10}y`;
+}
@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest"
+import type { Question } from "@shared/schema"
+import { applyTimeAway, type SavedAttempt } from "./saved-attempt"
+import type { SectionRange } from "./sections"
+
+const questions: Question[] = Array.from({ length: 6 }, (_, i) => ({
+  question: `Question ${i + 1}`,
+  answerDescription: '',
+  options: ['a', 'b'],
+  correctAnswer: 'a',
+  questionImages: [],
+  answerImages: []
+}));
+
+// Three sections of two questions: 100, 50 and 60 seconds
+const ranges: SectionRange[] = [
+  { section: { id: 's1', title: 'One', timer: 100 }, start: 0, end: 2 },
+  { section: { id: 's2', title: 'Two', timer: 50 }, start: 2, end: 4 },
+  { section: { id: 's3', title: 'Three', timer: 60 }, start: 4, end: 6 }
+];
+
+// 60 seconds into the first section, on its second question
+function attempt(fields: Partial<SavedAttempt> = {}): SavedAttempt {
+  return {
+    quizId: 'quiz',
+    mode: 'exam',
+    questionOrder: [0, 1, 2, 3, 4, 5],
+    options: questions.map(question => question.options),
+    selectedAnswers: [],
+    currentQuestionIndex: 1,
+    lockedQuestions: [],
+    visitedQuestions: [],
+    markedForReview: [],
+    questionTimes: [10, 20],
+    timer: 40,
+    currentSectionIndex: 0,
+    isSectionIntro: false,
+    sectionStartTimer: 100,
+    sectionTimeSpent: [],
+    savedAt: 0,
+    ...fields
+  };
+}
+
+const awayFor = (seconds: number) => seconds * 1000;
+
+describe("applyTimeAway", () => {
+  it("charges time away to the clock and the current question", () => {
+    const resumed = applyTimeAway(attempt(), questions, {}, ranges, awayFor(30));
+    expect(resumed.timer).toBe(10);
+    expect(resumed.questionTimes).toEqual([10, 50]);
+    expect(resumed.currentSectionIndex).toBe(0);
+  });
+
+  it("doesn't charge practice runs, section instructions or quizzes that pause while away", () => {
+    const saved = attempt();
+    expect(applyTimeAway({ ...saved, mode: 'practice' }, questions, {}, ranges, awayFor(30)).timer).toBe(40);
+    expect(applyTimeAway({ ...saved, isSectionIntro: true }, questions, {}, ranges, awayFor(30)).timer).toBe(40);
+    expect(applyTimeAway(saved, questions, { pauseWhenAway: true }, ranges, awayFor(30))).toBe(saved);
+  });
+
+  it("stops the current question at its own time limit", () => {
+    const resumed = applyTimeAway(attempt(), questions, { questionTimeLimit: 30 }, ranges, awayFor(30));
+    expect(resumed.questionTimes[1]).toBe(30);
+  });
+
+  it("carries time left over from a section into the next one", () => {
+    const resumed = applyTimeAway(attempt(), questions, {}, ranges, awayFor(60));
+    expect(resumed).toMatchObject({
+      currentSectionIndex: 1,
+      currentQuestionIndex: 2,
+      isSectionIntro: false,
+      timer: 30,
+      sectionStartTimer: 50,
+      sectionTimeSpent: [100]
+    });
+    // Only the time left in its section counts towards the question
+    expect(resumed.questionTimes[1]).toBe(60);
+  });
+
+  it("skips whole sections the time away covers", () => {
+    expect(applyTimeAway(attempt(), questions, {}, ranges, awayFor(100))).toMatchObject({
+      currentSectionIndex: 2,
+      currentQuestionIndex: 4,
+      timer: 50,
+      sectionTimeSpent: [100, 50]
+    });
+  });
+
+  it("opens the next section on its instructions when the time away ends exactly at a section's end", () => {
+    expect(applyTimeAway(attempt(), questions, {}, ranges, awayFor(90))).toMatchObject({
+      currentSectionIndex: 2,
+      isSectionIntro: true,
+      timer: 60
+    });
+  });
+
+  it("runs the last section out when the time away covers every section", () => {
+    expect(applyTimeAway(attempt(), questions, {}, ranges, awayFor(500))).toMatchObject({
+      currentSectionIndex: 2,
+      timer: 0,
+      sectionStartTimer: 60
+    });
+  });
+
+  it("stops at zero without sections", () => {
+    expect(applyTimeAway(attempt(), questions, {}, [], awayFor(500)).timer).toBe(0);
+  });
+});
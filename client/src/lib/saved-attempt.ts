@@ -0,0 +1,145 @@
+import type { Answer, Question, QuizMode, QuizSettings } from "@shared/schema"
+import { getQuestionTimeLimit } from "./attempt"
+import type { SectionRange } from "./sections"
+
+const STORAGE_KEY = 'activeAttempt';
+
+/**
+ * Snapshot of a running attempt, saved as it goes so it survives a reload or crash
+ * Only the shuffle (question order and option order) is kept, not the questions themselves,
+ * so quiz images aren't copied into storage again
+ */
+export type SavedAttempt = {
+  quizId: string;
+  mode: QuizMode;
+  questionOrder: number[];
+  options: string[][]; // Options of each presented question, in the order shown
+  selectedAnswers: Answer[];
+  currentQuestionIndex: number;
+  lockedQuestions: boolean[];
+  visitedQuestions: boolean[];
+  changedAnswers?: boolean[]; // Missing from attempts saved before it was tracked
+  markedForReview: boolean[];
+  questionTimes: number[];
+  timer: number;
+  currentSectionIndex: number;
+  isSectionIntro: boolean;
+  sectionStartTimer: number;
+  sectionTimeSpent: number[];
+  savedAt: number; // Epoch milliseconds
+};
+
+/**
+ * Stores the running attempt, replacing any earlier one - only one attempt can be in progress
+ */
+export function saveAttempt(attempt: SavedAttempt): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(attempt));
+  } catch (error) {
+    console.error("Failed to save the attempt in progress:", error);
+  }
+}
+
+/**
+ * Reads the attempt left in progress, or null if there is none (or it can't be read)
+ */
+export function loadSavedAttempt(): SavedAttempt | null {
+  try {
+    const value = localStorage.getItem(STORAGE_KEY);
+    if (!value) return null;
+    const attempt = JSON.parse(value);
+    return attempt && typeof attempt.quizId === 'string' && Array.isArray(attempt.questionOrder) ? attempt : null;
+  } catch (error) {
+    console.error("Failed to read the attempt in progress:", error);
+    return null;
+  }
+}
+
+export function clearSavedAttempt(): void {
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch (error) {
+    console.error("Failed to clear the attempt in progress:", error);
+  }
+}
+
+/**
+ * Rebuilds the questions as the saved attempt presented them
+ * Returns null when the quiz has been edited since, so the saved answers no longer line up
+ */
+export function restoreAttemptQuestions<Q extends Question>(questions: readonly Q[], attempt: SavedAttempt): Q[] | null {
+  if (attempt.options.length !== attempt.questionOrder.length) return null;
+
+  const restored: Q[] = [];
+  for (let i = 0; i < attempt.questionOrder.length; i++) {
+    const question = questions[attempt.questionOrder[i]];
+    const options = attempt.options[i];
+    if (!question || !options || options.length !== question.options.length) return null;
+    const original = [...question.options].sort();
+    if ([...options].sort().some((option, j) => option !== original[j])) return null;
+    restored.push({ ...question, options });
+  }
+  return restored;
+}
+
+/**
+ * Seconds between the last save and `now`
+ */
+export function getTimeAway(attempt: SavedAttempt, now: number = Date.now()): number {
+  return Math.max(0, Math.floor((now - attempt.savedAt) / 1000));
+}
+
+/**
+ * Charges the time spent away to a resumed attempt, unless the quiz pauses the clock while away
+ * Practice runs are untimed and a section's instructions screen hasn't started its clock, so neither is charged
+ * A question whose own limit ran out while away is left exactly at its limit, which moves the quiz on.
+ * When the current section's time runs out while away, the rest is charged to the sections after it, as if the
+ * learner had started each one straight away; the attempt resumes in whichever section is still running
+ */
+export function applyTimeAway(
+  attempt: SavedAttempt,
+  questions: readonly Question[],
+  settings: QuizSettings = {},
+  ranges: readonly SectionRange[] = [],
+  now: number = Date.now()
+): SavedAttempt {
+  if (attempt.mode === 'practice' || attempt.isSectionIntro || settings.pauseWhenAway) {
+    return attempt;
+  }
+
+  const away = getTimeAway(attempt, now);
+  const inSection = Math.min(away, attempt.timer);
+  const index = attempt.currentQuestionIndex;
+  const spent = attempt.questionTimes[index] || 0;
+  const limit = questions[index] ? getQuestionTimeLimit(questions[index], settings) : undefined;
+  const questionTimes = [...attempt.questionTimes];
+  questionTimes[index] = limit !== undefined && spent < limit ? Math.min(limit, spent + inSection) : spent + inSection;
+
+  let leftover = away - inSection;
+  if (leftover === 0 || attempt.currentSectionIndex >= ranges.length - 1) {
+    return { ...attempt, timer: attempt.timer - inSection, questionTimes };
+  }
+
+  // The current section ran out: it took all of its time, and so does every later section the rest covers
+  const sectionTimeSpent = [...attempt.sectionTimeSpent];
+  sectionTimeSpent[attempt.currentSectionIndex] = (sectionTimeSpent[attempt.currentSectionIndex] || 0) + attempt.sectionStartTimer;
+  let sectionIndex = attempt.currentSectionIndex + 1;
+  while (sectionIndex < ranges.length - 1 && leftover >= ranges[sectionIndex].section.timer) {
+    leftover -= ranges[sectionIndex].section.timer;
+    sectionTimeSpent[sectionIndex] = (sectionTimeSpent[sectionIndex] || 0) + ranges[sectionIndex].section.timer;
+    sectionIndex++;
+  }
+
+  // A section reached with no time left over opens on its instructions as usual
+  const sectionTimer = ranges[sectionIndex].section.timer;
+  return {
+    ...attempt,
+    questionTimes,
+    sectionTimeSpent,
+    currentSectionIndex: sectionIndex,
+    currentQuestionIndex: ranges[sectionIndex].start,
+    isSectionIntro: leftover === 0,
+    timer: Math.max(0, sectionTimer - leftover),
+    sectionStartTimer: sectionTimer
+  };
+}
@@ -0,0 +1,184 @@
+import { describe, expect, it, vi } from "vitest"
+import type { Question } from "@shared/schema"
+import {
+  formatScore, getExpectedAnswer, getScorePercentage, markQuestion, matchTextAnswer, parseNumericInput, scoreAttempt,
+  scoreQuestion, usesWeightedScoring
+} from "./scoring"
+
+function question(fields: Partial<Question>): Question {
+  return {
+    question: 'Question',
+    answerDescription: '',
+    options: [],
+    correctAnswer: '',
+    questionImages: [],
+    answerImages: [],
+    ...fields
+  };
+}
+
+describe("parseNumericInput", () => {
+  it("splits the value from its unit", () => {
+    expect(parseNumericInput("1,250.5 km")).toEqual({ value: 1250.5, unit: 'km' });
+    expect(parseNumericInput("−4m/s")).toEqual({ value: -4, unit: 'm/s' });
+    expect(parseNumericInput("1.5e3")).toEqual({ value: 1500, unit: '' });
+    expect(parseNumericInput(".5")).toEqual({ value: 0.5, unit: '' });
+  });
+
+  it("reads commas as thousands separators only where they group digits", () => {
+    expect(parseNumericInput("1,234")?.value).toBe(1234);
+    expect(parseNumericInput("1,234,567.25")?.value).toBe(1234567.25);
+    expect(parseNumericInput("12,34,567")?.value).toBe(1234567);
+  });
+
+  it("reads any other single comma as a decimal comma", () => {
+    expect(parseNumericInput("3,5")?.value).toBe(3.5);
+    expect(parseNumericInput("0,25 kg")).toEqual({ value: 0.25, unit: 'kg' });
+  });
+
+  it("rejects input that isn't a number", () => {
+    expect(parseNumericInput("1,2,3")).toBeNull();
+    expect(parseNumericInput("about 5")).toBeNull();
+    expect(parseNumericInput("")).toBeNull();
+  });
+});
+
+describe("scoreQuestion", () => {
+  it("scores single-answer and True/False questions", () => {
+    const single = question({ options: ['a', 'b'], correctAnswer: 'b' });
+    expect(scoreQuestion(single, 'b')).toBe(1);
+    expect(scoreQuestion(single, 'a')).toBe(0);
+    expect(scoreQuestion(question({ type: 'boolean', options: ['True', 'False'], correctAnswer: 'False' }), 'False')).toBe(1);
+  });
+
+  it("gives nothing for a blank answer", () => {
+    expect(scoreQuestion(question({ options: ['a', 'b'], correctAnswer: 'a' }), undefined)).toBe(0);
+    expect(scoreQuestion(question({ options: ['a', 'b'], correctAnswer: 'a' }), '  ')).toBe(0);
+  });
+
+  describe("multiple select", () => {
+    const multiple = (partialCredit?: Question['partialCredit']) => question({
+      type: 'multiple',
+      options: ['a', 'b', 'c', 'd'],
+      correctAnswers: ['a', 'b'],
+      partialCredit
+    });
+
+    it("needs the exact set by default", () => {
+      expect(scoreQuestion(multiple(), ['b', 'a'])).toBe(1);
+      expect(scoreQuestion(multiple(), ['a'])).toBe(0);
+      expect(scoreQuestion(multiple(), ['a', 'b', 'c'])).toBe(0);
+    });
+
+    it("credits each option classified correctly in proportional mode", () => {
+      expect(scoreQuestion(multiple('proportional'), ['a'])).toBe(0.75);
+      expect(scoreQuestion(multiple('proportional'), ['a', 'c'])).toBe(0.5);
+    });
+
+    it("takes wrong picks off right ones in right-minus-wrong mode, down to zero", () => {
+      expect(scoreQuestion(multiple('right-minus-wrong'), ['a'])).toBe(0.5);
+      expect(scoreQuestion(multiple('right-minus-wrong'), ['a', 'c'])).toBe(0);
+      expect(scoreQuestion(multiple('right-minus-wrong'), ['c', 'd'])).toBe(0);
+    });
+  });
+
+  describe("numeric", () => {
+    const numeric = question({
+      type: 'numeric',
+      numericAnswer: { value: 9.8, tolerance: 2, toleranceType: 'relative', units: ['m/s²', 'm/s^2'] }
+    });
+
+    it("accepts values within the tolerance, with or without an accepted unit", () => {
+      expect(scoreQuestion(numeric, '9.8')).toBe(1);
+      expect(scoreQuestion(numeric, '9,9 M/S^2')).toBe(1);
+      expect(scoreQuestion(numeric, '10.1')).toBe(0);
+    });
+
+    it("rejects a unit that isn't accepted", () => {
+      expect(scoreQuestion(numeric, '9.8 km/h')).toBe(0);
+    });
+
+    it("matches exact answers despite floating point error", () => {
+      expect(scoreQuestion(question({ type: 'numeric', numericAnswer: { value: 0.3 } }), String(0.1 + 0.2))).toBe(1);
+    });
+  });
+
+  it("gives ordering and matching questions credit per position", () => {
+    const ordering = question({ type: 'ordering', options: ['1', '2', '3', '4'] });
+    expect(scoreQuestion(ordering, ['1', '2', '3', '4'])).toBe(1);
+    expect(scoreQuestion(ordering, ['1', '2', '4', '3'])).toBe(0.5);
+
+    const matching = question({ type: 'matching', pairs: [{ left: 'x', right: 'X' }, { left: 'y', right: 'Y' }] });
+    expect(scoreQuestion(matching, ['X', ''])).toBe(0.5);
+  });
+});
+
+describe("matchTextAnswer", () => {
+  const text = question({ type: 'text', acceptedAnswers: ['Paris'], acceptedPatterns: ['colou?r', 'ça\\s+va'] });
+
+  it("matches accepted answers ignoring case and spacing", () => {
+    expect(matchTextAnswer(text, '  paris ')).toBe('Paris');
+  });
+
+  it("matches patterns against the whole answer, ignoring case", () => {
+    expect(matchTextAnswer(text, 'COLOR')).toBe('colou?r');
+    expect(matchTextAnswer(text, 'colors')).toBeNull();
+    expect(matchTextAnswer(text, 'Ça  va')).toBe('ça\\s+va');
+  });
+
+  it("skips invalid patterns saved before they were checked", () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const legacy = question({ type: 'text', acceptedPatterns: ['[', 'ok'] });
+    expect(matchTextAnswer(legacy, '[')).toBeNull();
+    expect(matchTextAnswer(legacy, 'OK')).toBe('ok');
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it("shows the variant the learner matched as the expected answer", () => {
+    expect(getExpectedAnswer(text, 'colour')).toBe('colou?r');
+    expect(getExpectedAnswer(text, 'London')).toBe('Paris');
+  });
+});
+
+describe("marking", () => {
+  const questions = [
+    question({ options: ['a', 'b'], correctAnswer: 'a', points: 2 }),
+    question({ options: ['a', 'b'], correctAnswer: 'a' }),
+    question({ options: ['a', 'b'], correctAnswer: 'a' })
+  ];
+  const marking = { correct: 1, incorrect: -0.25, unanswered: 0 };
+
+  it("weights marks by the question's points", () => {
+    expect(markQuestion(questions[0], 'a', 1, marking)).toBe(2);
+    expect(markQuestion(questions[0], 'b', 0, marking)).toBe(-0.5);
+    expect(markQuestion(questions[0], undefined, 0, marking)).toBe(0);
+  });
+
+  it("totals an attempt under the marking scheme", () => {
+    expect(scoreAttempt(questions, ['a', 'b', undefined], marking)).toEqual({
+      credits: [1, 0, 0],
+      score: 1,
+      weightedScore: 1.75,
+      maxScore: 4
+    });
+  });
+
+  it("notices when scores are weighted", () => {
+    expect(usesWeightedScoring(questions.slice(1))).toBe(false);
+    expect(usesWeightedScoring(questions)).toBe(true);
+    expect(usesWeightedScoring(questions.slice(1), marking)).toBe(true);
+  });
+
+  it("works out percentages from the weighted score when there is one, floored at zero", () => {
+    expect(getScorePercentage({ score: 1, totalQuestions: 4 })).toBe(25);
+    expect(getScorePercentage({ score: 1, totalQuestions: 3, weightedScore: 1.75, maxScore: 4 })).toBe(43.75);
+    expect(getScorePercentage({ score: 0, totalQuestions: 3, weightedScore: -1, maxScore: 4 })).toBe(0);
+  });
+
+  it("rounds fractional scores for display", () => {
+    expect(formatScore(3)).toBe('3');
+    expect(formatScore(2.5)).toBe('2.5');
+    expect(formatScore(1 / 3)).toBe('0.33');
+  });
+});
@@ -0,0 +1,259 @@
+import type { Answer, MarkingScheme, NumericAnswer, Question, QuizAttempt } from "@shared/schema"
+import { compileAnswerPattern } from "@shared/answer-patterns"
+import { getCorrectAnswer, getQuestionType, isAnswered } from "./questions"
+import { normalizeAnswerText } from "./utils"
+
+/**
+ * Scores a multiple-select answer according to the question's partial credit mode
+ * - all-or-nothing: credit only when the selected set matches the correct set exactly
+ * - proportional: share of options classified correctly (ticked if correct, left blank if not)
+ * - right-minus-wrong: correct picks minus wrong picks over the number of correct options, floored at 0
+ */
+function scoreMultipleSelect(question: Question, selected: string[]): number {
+  const correctAnswers = question.correctAnswers || [];
+  if (correctAnswers.length === 0 || selected.length === 0) {
+    return 0;
+  }
+
+  const rightPicks = selected.filter(option => correctAnswers.includes(option)).length;
+  const wrongPicks = selected.length - rightPicks;
+
+  switch (question.partialCredit || 'all-or-nothing') {
+    case 'proportional': {
+      const options = question.options.length > 0 ? question.options : correctAnswers;
+      const classifiedCorrectly = options.filter(
+        option => selected.includes(option) === correctAnswers.includes(option)
+      ).length;
+      return classifiedCorrectly / options.length;
+    }
+    case 'right-minus-wrong':
+      return Math.max(0, (rightPicks - wrongPicks) / correctAnswers.length);
+    default:
+      return rightPicks === correctAnswers.length && wrongPicks === 0 ? 1 : 0;
+  }
+}
+
+// Commas in the whole part of a number are read as thousands separators only where they group digits,
+// in the Western (1,234,567) or Indian (12,34,567) style
+const GROUPED_THOUSANDS = /^(?:\d{1,3}(?:,\d{3})+|\d{1,2}(?:,\d{2})*,\d{3})$/;
+
+/**
+ * Turns the digits of a typed number into a form parseFloat reads, or null when its commas make no sense
+ * Grouping commas are dropped; a single comma anywhere else is a decimal comma ("3,5" is 3.5)
+ */
+function normalizeNumberDigits(digits: string): string | null {
+  if (!digits.includes(',')) {
+    return digits;
+  }
+  const [whole, fraction] = digits.split('.');
+  if (GROUPED_THOUSANDS.test(whole)) {
+    return fraction === undefined ? whole.replace(/,/g, '') : `${whole.replace(/,/g, '')}.${fraction}`;
+  }
+  return /^\d+,\d+$/.test(digits) ? digits.replace(',', '.') : null;
+}
+
+/**
+ * Splits a typed numeric answer like "1,250.5 km" into its value and unit
+ * Returns null when the input does not start with a number
+ */
+export function parseNumericInput(input: string): { value: number; unit: string } | null {
+  const match = input.trim().match(/^([-+−]?)(\d[\d,]*(?:\.\d*)?|\.\d+)(e[-+]?\d+)?\s*(.*)$/i);
+  if (!match) {
+    return null;
+  }
+
+  const digits = normalizeNumberDigits(match[2]);
+  if (digits === null) {
+    return null;
+  }
+
+  const value = parseFloat(`${match[1].replace('−', '-')}${digits}${match[3] || ''}`);
+  return Number.isFinite(value) ? { value, unit: match[4].trim() } : null;
+}
+
+/**
+ * Normalises a unit for comparison so "m/s", "M/S" and "m / s" all match
+ */
+function normalizeUnit(unit: string): string {
+  return unit.toLowerCase().replace(/\s+/g, '');
+}
+
+/**
+ * Checks a typed numeric answer against the expected value, tolerance and accepted units
+ * A unit is optional for the learner, but one that is typed must be an accepted spelling
+ */
+function scoreNumeric(numericAnswer: NumericAnswer | undefined, input: string): number {
+  const parsed = parseNumericInput(input);
+  if (!numericAnswer || !parsed) {
+    return 0;
+  }
+
+  if (parsed.unit) {
+    const acceptedUnits = (numericAnswer.units || []).map(normalizeUnit);
+    if (!acceptedUnits.includes(normalizeUnit(parsed.unit))) {
+      return 0;
+    }
+  }
+
+  const tolerance = numericAnswer.tolerance || 0;
+  const allowedError = numericAnswer.toleranceType === 'relative'
+    ? Math.abs(numericAnswer.value) * tolerance / 100
+    : tolerance;
+
+  // Small epsilon so values like 0.1 + 0.2 still match an exact answer of 0.3
+  return Math.abs(parsed.value - numericAnswer.value) <= allowedError + 1e-9 ? 1 : 0;
+}
+
+/**
+ * Finds the accepted variant a typed answer matches, or null if none does
+ * Plain variants are compared after normalisation; patterns must match the whole answer
+ */
+export function matchTextAnswer(question: Question, input: string): string | null {
+  const normalizedInput = normalizeAnswerText(input);
+  if (normalizedInput === '') {
+    return null;
+  }
+
+  const matchedAnswer = (question.acceptedAnswers || []).find(
+    answer => answer.trim() !== '' && normalizeAnswerText(answer) === normalizedInput
+  );
+  if (matchedAnswer) {
+    return matchedAnswer;
+  }
+
+  for (const pattern of question.acceptedPatterns || []) {
+    if (pattern.trim() === '') continue;
+    // The editor and schema reject invalid patterns; ones saved before that check are skipped
+    try {
+      const regex = compileAnswerPattern(pattern);
+      if (regex.test(input.trim()) || regex.test(normalizedInput)) {
+        return pattern;
+      }
+    } catch (error) {
+      console.warn(`Ignoring invalid answer pattern: ${pattern}`, error);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Gives per-position partial credit for ordering and matching questions:
+ * the share of positions where the learner's item equals the expected one
+ */
+function scorePositions(expected: string[], answer: string[]): number {
+  if (expected.length === 0) {
+    return 0;
+  }
+  const correctPositions = expected.filter((item, i) => answer[i] === item).length;
+  return correctPositions / expected.length;
+}
+
+/**
+ * Scores a single answer, returning the fraction of the question's point earned (0 to 1)
+ */
+export function scoreQuestion(question: Question, answer: Answer | undefined): number {
+  if (!isAnswered(answer)) {
+    return 0;
+  }
+
+  switch (getQuestionType(question)) {
+    case 'multiple':
+      return scoreMultipleSelect(question, Array.isArray(answer) ? answer : [answer as string]);
+    case 'numeric':
+      return scoreNumeric(question.numericAnswer, Array.isArray(answer) ? answer.join('') : answer as string);
+    case 'text':
+      return matchTextAnswer(question, Array.isArray(answer) ? answer.join(' ') : answer as string) !== null ? 1 : 0;
+    case 'ordering':
+    case 'matching':
+      return scorePositions(getCorrectAnswer(question) as string[], Array.isArray(answer) ? answer : [answer as string]);
+    default:
+      return answer === getCorrectAnswer(question) ? 1 : 0;
+  }
+}
+
+// One point per correct answer and no penalty, used when a quiz has no marking scheme
+export const DEFAULT_MARKING: MarkingScheme = { correct: 1, incorrect: 0, unanswered: 0 };
+
+/**
+ * Points earned for one answer under a marking scheme, scaled by the question's weight
+ * Partially correct answers earn their share of the correct mark without a penalty,
+ * wrong answers get the (negative) incorrect mark and blank ones the unanswered mark
+ */
+export function markQuestion(question: Question, answer: Answer | undefined, credit: number, marking: MarkingScheme = DEFAULT_MARKING): number {
+  const weight = question.points ?? 1;
+  if (!isAnswered(answer)) {
+    return (marking.unanswered ?? 0) * weight;
+  }
+  if (credit > 0) {
+    return credit * marking.correct * weight;
+  }
+  return marking.incorrect * weight;
+}
+
+/**
+ * Totals for one attempt: the raw score counts (partially) correct answers,
+ * the weighted score applies the marking scheme and question weights
+ */
+export type AttemptScore = {
+  credits: number[];
+  score: number;
+  weightedScore: number;
+  maxScore: number;
+};
+
+/**
+ * Scores every answer of an attempt
+ */
+export function scoreAttempt(questions: readonly Question[], answers: readonly (Answer | undefined)[], marking: MarkingScheme = DEFAULT_MARKING): AttemptScore {
+  const credits = questions.map((question, index) => scoreQuestion(question, answers[index]));
+  return {
+    credits,
+    score: credits.reduce((sum, credit) => sum + credit, 0),
+    weightedScore: questions.reduce((sum, question, index) => sum + markQuestion(question, answers[index], credits[index], marking), 0),
+    maxScore: questions.reduce((sum, question) => sum + marking.correct * (question.points ?? 1), 0)
+  };
+}
+
+/**
+ * Checks whether weighted scores differ from plain correct-answer counts,
+ * i.e. the quiz has its own marking scheme or weighted questions
+ */
+export function usesWeightedScoring(questions: readonly Question[], marking: MarkingScheme = DEFAULT_MARKING): boolean {
+  return marking.correct !== DEFAULT_MARKING.correct ||
+    marking.incorrect !== DEFAULT_MARKING.incorrect ||
+    (marking.unanswered ?? 0) !== 0 ||
+    questions.some(question => (question.points ?? 1) !== 1);
+}
+
+/**
+ * Percentage for an attempt, based on the weighted score when one was recorded
+ * Negative marking can push the score below zero; the percentage is floored at 0
+ */
+export function getScorePercentage(attempt: Pick<QuizAttempt, 'score' | 'totalQuestions' | 'weightedScore' | 'maxScore'>): number {
+  const percentage = attempt.weightedScore !== undefined && attempt.maxScore
+    ? attempt.weightedScore / attempt.maxScore * 100
+    : attempt.totalQuestions > 0 ? attempt.score / attempt.totalQuestions * 100 : 0;
+  return Math.max(0, percentage);
+}
+
+/**
+ * Returns the expected answer to show next to a learner's answer
+ * For typed answers this is the accepted variant they matched, falling back to the primary one
+ */
+export function getExpectedAnswer(question: Question, answer: Answer | undefined): Answer {
+  if (getQuestionType(question) === 'text' && isAnswered(answer)) {
+    const matched = matchTextAnswer(question, Array.isArray(answer) ? answer.join(' ') : answer as string);
+    if (matched !== null) {
+      return matched;
+    }
+  }
+  return getCorrectAnswer(question);
+}
+
+/**
+ * Rounds a possibly fractional score for display
+ */
+export function formatScore(score: number): string {
+  return Number.isInteger(score) ? String(score) : score.toFixed(2).replace(/\.?0+$/, '');
+}
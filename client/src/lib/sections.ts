@@ -0,0 +1,54 @@
+import type { Question, QuizSection } from "@shared/schema"
+
+/**
+ * Questions of one section within an attempt, as a half-open range [start, end)
+ */
+export type SectionRange = {
+  section: QuizSection;
+  start: number;
+  end: number;
+};
+
+/**
+ * Finds which section a question belongs to
+ * Questions without a section, or pointing at a deleted one, fall into the first section
+ */
+export function getSectionIndex(question: Question, sections: readonly QuizSection[]): number {
+  const index = sections.findIndex(section => section.id === question.sectionId);
+  return index === -1 ? 0 : index;
+}
+
+/**
+ * Stable-sorts questions into section order and returns the permutation applied
+ * The relative order of questions inside a section is kept
+ */
+export function sortBySection(questions: readonly Question[], sections: readonly QuizSection[]): number[] {
+  return questions
+    .map((question, index) => ({ index, section: getSectionIndex(question, sections) }))
+    .sort((a, b) => a.section - b.section || a.index - b.index)
+    .map(({ index }) => index);
+}
+
+/**
+ * Splits section-ordered questions into ranges, skipping sections without questions
+ */
+export function getSectionRanges(questions: readonly Question[], sections: readonly QuizSection[]): SectionRange[] {
+  const ranges: SectionRange[] = [];
+  questions.forEach((question, index) => {
+    const section = sections[getSectionIndex(question, sections)];
+    const last = ranges[ranges.length - 1];
+    if (last && last.section.id === section.id) {
+      last.end = index + 1;
+    } else {
+      ranges.push({ section, start: index, end: index + 1 });
+    }
+  });
+  return ranges;
+}
+
+/**
+ * Finds the section range containing a question of the attempt
+ */
+export function findSectionRange(ranges: readonly SectionRange[], questionIndex: number): number {
+  return ranges.findIndex(range => questionIndex >= range.start && questionIndex < range.end);
+}
@@ -0,0 +1,245 @@
+import type { Question, Quiz as ServerQuiz, QuizAttempt, QuizCategory, QuizRole, QuizSection, QuizSettings } from "@shared/schema"
+import { getImageHash, mapQuestionImages } from "@shared/image-refs"
+import { canEditQuiz, getQuizRole, type RoleHolder } from "@shared/permissions"
+import { apiRequest } from "./queryClient"
+import { resolveImageSrc } from "./image-store"
+import { claimQuizId } from "./quiz-db"
+
+/**
+ * The parts of a quiz on this device that are shared through the server
+ * Attempts are recorded on the server one by one; the review deck, password and lastTaken stay on the device
+ */
+export type SyncableQuiz = {
+  id: string;
+  uniqueId?: string; // Set once the server has the quiz
+  createdBy?: number; // Quizzes without one belong to the device and are never uploaded
+  title: string;
+  description: string;
+  questions: Question[];
+  timer: number;
+  category: QuizCategory;
+  settings?: QuizSettings;
+  sections?: QuizSection[];
+  isPublic: boolean;
+  version?: number; // The server's version this copy is based on
+  unsyncedChanges?: boolean; // Edited here since it was last synced
+  history?: QuizAttempt[];
+  createdAt: Date;
+};
+
+export type SyncSummary = {
+  uploaded: number;
+  downloaded: number;
+  conflicts: number; // Quizzes changed here and on the server, kept here as a copy
+  rejectedAttempts: number; // Attempts the quiz's retake policy didn't allow
+  failed: number;
+};
+
+export type SyncResult<T extends SyncableQuiz> = {
+  updated: Map<string, T>; // By id, for quizzes already on this device
+  added: T[]; // Copies of conflicting changes, and quizzes shared with the account from elsewhere
+  summary: SyncSummary;
+};
+
+// Server image URL by image hash or inline data URL, so each image is uploaded once per session
+const uploadedImages = new Map<string, string>();
+
+async function uploadImage(src: string): Promise<string> {
+  const key = getImageHash(src) ?? src;
+  const known = uploadedImages.get(key);
+  if (known) return known;
+
+  const dataUrl = resolveImageSrc(src);
+  if (!dataUrl) throw new Error(`Image ${key} is missing from this device`);
+  const form = new FormData();
+  form.append('image', await (await fetch(dataUrl)).blob());
+  const res = await apiRequest('/api/images', { method: 'POST', body: form });
+  const { url } = await res.json() as { url: string };
+  uploadedImages.set(key, url);
+  return url;
+}
+
+// Stored and inline images are uploaded and swapped for their server URLs; links are left alone
+async function withServerImages(questions: readonly Question[]): Promise<Question[]> {
+  const urls = new Map<string, string>();
+  for (const question of questions) {
+    for (const src of [...(question.questionImages || []), ...(question.answerImages || [])]) {
+      if (!urls.has(src) && (getImageHash(src) || src.startsWith('data:image'))) {
+        urls.set(src, await uploadImage(src));
+      }
+    }
+  }
+  return mapQuestionImages(questions, src => urls.get(src) ?? src);
+}
+
+async function toServerFields(quiz: SyncableQuiz) {
+  return {
+    title: quiz.title,
+    description: quiz.description,
+    questions: await withServerImages(quiz.questions),
+    timer: quiz.timer,
+    category: quiz.category,
+    settings: quiz.settings,
+    sections: quiz.sections,
+    isPublic: quiz.isPublic
+  };
+}
+
+// What a copy on this device takes from the server's
+function fromServerFields(quiz: ServerQuiz) {
+  return {
+    uniqueId: quiz.uniqueId,
+    createdBy: quiz.createdBy ?? undefined,
+    title: quiz.title,
+    description: quiz.description,
+    questions: quiz.questions,
+    timer: quiz.timer,
+    category: quiz.category as QuizCategory,
+    settings: quiz.settings ?? undefined,
+    sections: quiz.sections ?? undefined,
+    isPublic: quiz.isPublic,
+    version: quiz.version,
+    unsyncedChanges: false
+  };
+}
+
+// The server's copy, or null when it has none this user can see
+async function fetchServerQuiz(uniqueId: string): Promise<ServerQuiz | null> {
+  try {
+    const res = await apiRequest(`/api/quizzes/unique/${encodeURIComponent(uniqueId)}`);
+    return await res.json();
+  } catch (error) {
+    if (error instanceof Error && error.message.startsWith('404:')) return null;
+    throw error;
+  }
+}
+
+// Records the attempts made here that the server doesn't have for this user yet; returns how many it refused
+async function recordAttempts(quiz: SyncableQuiz, server: ServerQuiz, userId: number): Promise<number> {
+  const recorded = new Set((server.history || [])
+    .filter(attempt => attempt.userId === userId)
+    .map(attempt => new Date(attempt.date).getTime()));
+  const attempts = (quiz.history || []).filter(attempt => !recorded.has(new Date(attempt.date).getTime()));
+  if (attempts.length === 0) return 0;
+
+  const res = await apiRequest(`/api/quizzes/${server.id}/attempts`, { method: 'POST', body: JSON.stringify({ attempts }) });
+  return (await res.json()).rejected as number;
+}
+
+/**
+ * Deletes the server's copy of a quiz, so the next sync doesn't bring it back; a copy that's already gone is fine
+ */
+export async function deleteServerQuiz(uniqueId: string): Promise<void> {
+  const server = await fetchServerQuiz(uniqueId);
+  if (server) {
+    await apiRequest(`/api/quizzes/${server.id}`, { method: 'DELETE' });
+  }
+}
+
+/**
+ * Brings this device's account quizzes in step with the server, one quiz at a time:
+ * - quizzes the server doesn't have yet are uploaded under their id, which becomes their uniqueId
+ * - edits made here are uploaded where the user may edit the quiz; if the server's copy changed meanwhile,
+ *   or the user can't edit it any more, the server's copy is taken and the edits are kept as a new quiz
+ * - otherwise changes others made on the server are taken
+ * - attempts made here are recorded for the user, subject to the quiz's retake policy
+ * - quizzes the user has a role on that aren't on this device are added
+ * Quizzes that belong to the device rather than an account are left alone
+ */
+export async function syncAccountQuizzes<T extends SyncableQuiz>(
+  quizzes: readonly T[],
+  user: RoleHolder,
+  quizRoles: Record<string, QuizRole>,
+  fromServer: (fields: ReturnType<typeof fromServerFields> & { id: string; history: QuizAttempt[]; createdAt: Date }) => T
+): Promise<SyncResult<T>> {
+  const summary: SyncSummary = { uploaded: 0, downloaded: 0, conflicts: 0, rejectedAttempts: 0, failed: 0 };
+  const updated = new Map<string, T>();
+  const added: T[] = [];
+  const usedIds = new Set(quizzes.map(quiz => quiz.id));
+  const linked = new Set<string>();
+
+  for (const quiz of quizzes) {
+    if (quiz.createdBy == null) continue;
+    const uniqueId = quiz.uniqueId ?? quiz.id;
+    linked.add(uniqueId);
+
+    try {
+      let server = await fetchServerQuiz(uniqueId);
+      const role = getQuizRole(user, quiz, quizRoles[uniqueId]);
+
+      if (!server) {
+        // Gone from the server, or shared with this user and since taken away: nothing to sync with
+        if (quiz.uniqueId || !canEditQuiz(role)) continue;
+        const res = await apiRequest('/api/quizzes', {
+          method: 'POST',
+          body: JSON.stringify({ ...(await toServerFields(quiz)), uniqueId })
+        });
+        server = await res.json() as ServerQuiz;
+        updated.set(quiz.id, { ...quiz, uniqueId, version: server.version, unsyncedChanges: false });
+        summary.uploaded++;
+      } else if (quiz.unsyncedChanges || !quiz.uniqueId) {
+        let saved = false;
+        if (canEditQuiz(role)) {
+          try {
+            const res = await apiRequest(`/api/quizzes/${server.id}`, {
+              method: 'PUT',
+              body: JSON.stringify({ ...(await toServerFields(quiz)), version: quiz.version })
+            });
+            server = await res.json() as ServerQuiz;
+            saved = true;
+          } catch (error) {
+            if (!(error instanceof Error && error.message.startsWith('409:'))) throw error;
+          }
+        }
+        if (saved) {
+          updated.set(quiz.id, { ...quiz, uniqueId, version: server.version, unsyncedChanges: false });
+          summary.uploaded++;
+        } else {
+          updated.set(quiz.id, { ...quiz, ...fromServerFields(server) });
+          added.push({
+            ...quiz,
+            id: claimQuizId(undefined, usedIds),
+            uniqueId: undefined,
+            createdBy: user.id,
+            title: `${quiz.title} (my changes)`,
+            version: 1,
+            unsyncedChanges: true,
+            history: [],
+            createdAt: new Date()
+          });
+          summary.conflicts++;
+        }
+      } else if (server.version !== quiz.version) {
+        updated.set(quiz.id, { ...quiz, ...fromServerFields(server) });
+        summary.downloaded++;
+      }
+
+      summary.rejectedAttempts += await recordAttempts(quiz, server, user.id);
+    } catch (error) {
+      console.error(`Failed to sync quiz ${uniqueId}:`, error);
+      summary.failed++;
+    }
+  }
+
+  for (const uniqueId of Object.keys(quizRoles)) {
+    if (linked.has(uniqueId)) continue;
+    try {
+      const server = await fetchServerQuiz(uniqueId);
+      if (!server) continue;
+      added.push(fromServer({
+        ...fromServerFields(server),
+        id: claimQuizId(uniqueId, usedIds),
+        history: (server.history || [])
+          .filter(attempt => attempt.userId === user.id)
+          .map(attempt => ({ ...attempt, date: new Date(attempt.date) })),
+        createdAt: new Date(server.createdAt)
+      }));
+      summary.downloaded++;
+    } catch (error) {
+      console.error(`Failed to download quiz ${uniqueId}:`, error);
+      summary.failed++;
+    }
+  }
+
+  return { updated, added, summary };
+}
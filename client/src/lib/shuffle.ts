@@ -0,0 +1,27 @@
+/**
+ * Returns a shuffled copy of an array using the Fisher-Yates algorithm
+ */
+export function shuffleArray<T>(items: readonly T[], random: () => number = Math.random): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+/**
+ * Shuffles items so they never come out in their original order (when that is possible)
+ * Used to present ordering questions without giving away the answer
+ */
+export function shuffleAwayFromOriginal<T>(items: readonly T[], random: () => number = Math.random): T[] {
+  if (items.length < 2 || items.every(item => item === items[0])) {
+    return [...items];
+  }
+
+  let shuffled = shuffleArray(items, random);
+  while (shuffled.every((item, i) => item === items[i])) {
+    shuffled = shuffleArray(items, random);
+  }
+  return shuffled;
+}
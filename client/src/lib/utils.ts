@@ -231,6 +231,25 @@ export function isEncodedQuizData(data: string): boolean {
          data.startsWith("BMVQUIZ_UTF8_");
 }
 
+/**
+ * Normalises free-text answers so equivalent spellings compare equal
+ * Folds case and compatibility forms, strips Latin diacritics (é → e), removes
+ * zero-width joiners, maps Devanagari digits to ASCII, and collapses whitespace and
+ * surrounding punctuation. Devanagari vowel signs, nukta and virama are kept, since
+ * dropping them would change the word (e.g. कम vs काम).
+ */
+export function normalizeAnswerText(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[\u200b-\u200d\ufeff]/g, '')
+    .replace(/[\u0966-\u096f]/g, digit => String(digit.charCodeAt(0) - 0x0966))
+    .normalize('NFC')
+    .toLocaleLowerCase()
+    .replace(/\s+/g, ' ')
+    .replace(/^[\s.,;:!?'"`()\[\]{}\u0964\u0965\u2018-\u201f\u00a1\u00bf]+|[\s.,;:!?'"`()\[\]{}\u0964\u0965\u2018-\u201f\u00a1\u00bf]+$/g, '');
+}
+
 /**
  * Safely converts an object to a JSON string with error handling
  * This function is used for reliable offline export
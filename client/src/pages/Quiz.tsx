@@ -10,9 +10,10 @@ import { Textarea } from "@/components/ui/textarea"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion"
 import { ScrollArea } from "@/components/ui/scroll-area"
-import { Upload, Download, Trash, Edit, Plus, Minus, Check, X, ArrowRight, ArrowLeft, Clock, Pencil, Save, RefreshCw, Cloud, ChevronDown, CheckIcon, XIcon, ChevronsUp, Copy } from "lucide-react"
+import { Upload, Download, Trash, Edit, Plus, Minus, Check, X, ArrowRight, ArrowLeft, Clock, Pencil, Save, RefreshCw, Cloud, ChevronDown, CheckIcon, XIcon, ChevronsUp, Copy, BookOpen, Flag } from "lucide-react"
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
 import { Checkbox } from "@/components/ui/checkbox"
+import { Switch } from "@/components/ui/switch"
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog"
 import { useToast } from "@/hooks/use-toast"
 import { Progress } from "@/components/ui/progress"
@@ -20,8 +21,37 @@ import { motion, AnimatePresence } from "framer-motion"
 import { apiRequest } from "@/lib/queryClient"
 import { v4 as uuidv4 } from 'uuid'
 import { encodeQuizData, decodeQuizData, isEncodedQuizData, safeStringify } from "@/lib/utils"
+import { createEmptyQuestion, convertQuestionType, getQuestionType, usesOptions, isQuestionBlank, getQuestionIssue, finalizeQuestion, MIN_OPTIONS, MAX_OPTIONS, BOOLEAN_OPTIONS, isCorrectOption, isOptionSelected, formatAnswer, createInitialAnswer, describeAnswer, getMatchChoices, getSubmittedAnswer, isAnswered, isAnsweredOnSelect } from "@/lib/questions"
+import { scoreQuestion, getExpectedAnswer, formatScore, scoreAttempt, usesWeightedScoring, getScorePercentage } from "@/lib/scoring"
+import { shuffleArray } from "@/lib/shuffle"
 import { ThemeToggle } from "@/components/theme-toggle"
+import { OrderingQuestion } from "@/components/ordering-question"
+import { MatchingQuestion } from "@/components/matching-question"
+import { MathPreview, RichText } from "@/components/rich-text"
+import { RichTextField } from "@/components/rich-text-field"
+import { PracticeFeedback } from "@/components/practice-feedback"
+import { QuizSettingsForm } from "@/components/quiz-settings-form"
+import { buildAttemptLayout, getQuestionTimeLimit, getIncorrectQuestions } from "@/lib/attempt"
+import { getSectionRanges, type SectionRange } from "@/lib/sections"
+import { ensureQuestionIds } from "@shared/question-ids"
+import { getRetakeStatus, describeRetakeStatus, describeRetakePolicy } from "@shared/retake"
+import { getAnswerPatternError } from "@shared/answer-patterns"
+import { addMissedQuestions, findReviewQuestion, isReviewDue, scheduleReview, type ReviewGrade } from "@/lib/review"
+import { ReviewDeck, type ReviewItem } from "@/components/review-deck"
+import { ItemAnalysis } from "@/components/item-analysis"
+import { ProgressCharts } from "@/components/progress-charts"
+import { saveAttempt, loadSavedAttempt, clearSavedAttempt, restoreAttemptQuestions, applyTimeAway, getTimeAway, type SavedAttempt } from "@/lib/saved-attempt"
+import { SectionsEditor } from "@/components/sections-editor"
+import { SectionBreakdown, SectionIntro, SectionTabs } from "@/components/quiz-sections"
+import { QuestionPalette, type PaletteStatus } from "@/components/question-palette"
+import { StorageUsage } from "@/components/storage-usage"
+import { bundleQuizzes, collectImageGarbage, internQuestionImages, isQuizBundle, loadImageStore, resolveImageSrc, storeImage } from "@/lib/image-store"
+import { deleteServerQuiz, syncAccountQuizzes } from "@/lib/server-quizzes"
+import { claimQuizId, migrateFromLocalStorage, loadQuizzes, saveQuizzes, getStorageEstimate, type StorageEstimate } from "@/lib/quiz-db"
 import { useTheme } from "@/components/theme-provider"
+import { AccountMenu } from "@/components/account-menu"
+import { useAuth } from "@/hooks/use-auth"
+import { canEditQuiz, canManageQuiz } from "@shared/permissions"
 
 // TypeScript declaration for File System Access API and Android Bridge
 declare global {
@@ -40,31 +70,135 @@ declare global {
   }
 }
 
+type QuestionType = 'single' | 'multiple' | 'numeric' | 'text' | 'ordering' | 'matching' | 'boolean'
+
+type PartialCreditMode = 'all-or-nothing' | 'proportional' | 'right-minus-wrong'
+
+type NumericAnswer = {
+  value: number
+  tolerance?: number
+  toleranceType?: 'absolute' | 'relative'  // Relative tolerance is a percentage of the value
+  units?: string[]  // Accepted unit spellings
+}
+
+type MatchPair = {
+  left: string
+  right: string
+}
+
+type TextFormat = 'plain' | 'markdown'
+
 type Question = {
+  id?: string  // Stable identity across edits; every question gets one when loaded or imported
+  type?: QuestionType  // Defaults to single-answer multiple choice
+  format?: TextFormat  // How question and answerDescription are written; defaults to plain text
   question: string
   answerDescription: string
   options: string[]
   correctAnswer: string
+  correctAnswers?: string[]  // For multiple-select questions
+  partialCredit?: PartialCreditMode  // For multiple-select questions
+  numericAnswer?: NumericAnswer  // For numeric questions
+  acceptedAnswers?: string[]  // For typed-answer questions, matched ignoring case, spacing and diacritics
+  acceptedPatterns?: string[]  // For typed-answer questions, regular expressions matched against the whole answer
+  pairs?: MatchPair[]  // For matching questions; ordering questions list their items in the correct order in options
+  points?: number  // Weight under the quiz's marking scheme, defaults to 1
+  sectionId?: string  // Section of a sectioned quiz; missing or unknown ids fall into the first section
+  timeLimit?: number  // Seconds; overrides the quiz's per-question limit
   questionImages: string[]
   answerImages: string[]
 }
 
+// A single option or typed answer, or a list for multiple-select, ordering and matching questions
+type Answer = string | string[]
+
 type QuizCategory = 'General Knowledge' | 'Mathematics' | 'Science' | 'Reasoning' | 'Custom' | string
 
+// Exams are timed and scored at the end; practice reveals each answer as you go
+type QuizMode = 'exam' | 'practice'
+
+// Score for one section of an attempt
+type SectionResult = {
+  sectionId: string
+  title: string
+  score: number
+  totalQuestions: number
+  weightedScore?: number
+  maxScore?: number
+  timeSpent: number
+}
+
 type QuizAttempt = {
   date: Date
   score: number
   totalQuestions: number
   timeSpent: number
+  mode?: QuizMode  // Attempts without a mode are exams
+  weightedScore?: number  // Points under the marking scheme, can be negative
+  maxScore?: number  // Best possible weighted score
+  questionOrder?: number[]  // Index in the quiz of each question, in the order shown
+  sectionResults?: SectionResult[]  // Sectioned quizzes only
   // Track which questions were answered correctly/incorrectly
   questionResults?: Array<{
+    questionId?: string
     question: string
-    userAnswer: string
-    correctAnswer: string
+    format?: TextFormat
+    options?: string[]  // Options in the order they were shown
+    userAnswer: Answer
+    correctAnswer: Answer
     isCorrect: boolean
+    credit?: number  // Fraction of the point earned, for partial credit
+    timeSpent?: number  // Seconds on the question, summed over every visit
   }>
 }
 
+// Points per question (times its weight); incorrect and unanswered are zero or negative
+type MarkingScheme = {
+  correct: number
+  incorrect: number
+  unanswered?: number
+}
+
+// When an exam can be taken again; window dates are ISO strings
+type RetakePolicy =
+  | { type: 'unlimited' }
+  | { type: 'cooldown', minutes: number }
+  | { type: 'maxAttempts', attempts: number }
+  | { type: 'window', opensAt?: string, closesAt?: string }
+
+// How each attempt is put together
+type QuizSettings = {
+  marking?: MarkingScheme  // Defaults to one point per correct answer, no penalty
+  shuffleQuestions?: boolean
+  shuffleOptions?: boolean  // Choice questions only
+  anchorLastOption?: boolean  // Keep the last option (e.g. "All of the above") in place when shuffling
+  questionCount?: number  // Draw this many questions at random from the pool
+  questionTimeLimit?: number  // Seconds per question in exams
+  pauseWhenAway?: boolean  // Resumed exams don't count time spent away
+  retake?: RetakePolicy  // Defaults to a 10 minute cooldown between exams
+}
+
+// Part of a long quiz with its own instructions and time limit, taken in order
+type QuizSection = {
+  id: string
+  title: string
+  instructions?: string
+  timer: number  // Seconds; replaces the quiz timer once a quiz has sections
+}
+
+// Spaced-repetition schedule for a missed question; dates are ISO strings
+type ReviewCard = {
+  questionId?: string
+  questionIndex: number
+  question: string  // Text when the card was made, to find the question again after edits
+  easeFactor: number
+  interval: number  // Days
+  repetitions: number
+  lapses: number
+  due: string
+  lastReviewed?: string
+}
+
 type Quiz = {
   id: string        // Unique identifier for cross-device synchronization
   title: string
@@ -73,24 +207,22 @@ type Quiz = {
   timer: number
   lastTaken?: Date
   password?: string  // User-defined password for editing
+  createdBy?: number  // Account that created the quiz; it and admins own it. Unset for quizzes made without logging in
+  uniqueId?: string  // The quiz's ID on the server once it's stored there, which roles granted on it refer to
   category: QuizCategory
   history?: QuizAttempt[]
+  settings?: QuizSettings
+  sections?: QuizSection[]
+  review?: ReviewCard[]  // Missed questions scheduled for review
   createdAt: Date
   isPublic: boolean  // For sharing functionality
-  version?: number   // Version tracking for updates
+  version?: number   // Version tracking for updates; the server's version once it has the quiz
+  unsyncedChanges?: boolean  // Edited here since it was last synced with the server
 }
 
-// Utility function to compress base64 images
-function compressBase64Image(base64: string, quality = 0.7, maxSize = 1200): string {
-  // If it's not a base64 image, return as is
-  if (!base64 || !base64.startsWith('data:image')) {
-    return base64;
-  }
-
-  // For a simplified implementation, just return the original
-  // In a real implementation with a proper canvas setup, this would compress the image
-  console.log(`Image would be compressed to quality: ${quality}, max size: ${maxSize}px`);
-  return base64;
+// Quizzes made without logging in belong to whoever uses this device; only they use a quiz password
+function isDeviceQuiz(quiz: Pick<Quiz, "createdBy">): boolean {
+  return quiz.createdBy == null
 }
 
 // Add a simple health check banner at the top of the page
@@ -145,7 +277,7 @@ export default function QuizApp() {
   useEffect(() => {
     // Define the function to restore from Android backup
     // This will be called by the Android WebView when the app starts
-    window.restoreQuizzesFromBackup = (backupData) => {
+    window.restoreQuizzesFromBackup = async (backupData) => {
       try {
         console.log("Attempting to restore quizzes from external backup");
         if (!backupData) {
@@ -162,21 +294,29 @@ export default function QuizApp() {
           quizzesToRestore = backupData;
         }
         
+        // Backups carry their images alongside the quizzes; older ones are a plain array with images inline
+        let backupImages: Record<string, string> = {};
+        if (isQuizBundle(quizzesToRestore)) {
+          backupImages = quizzesToRestore.images || {};
+          quizzesToRestore = quizzesToRestore.quizzes;
+        }
+        
         if (!Array.isArray(quizzesToRestore)) {
           console.error("Invalid backup data format - expected array");
           return;
         }
         
         // Process the quizzes - convert date strings to Date objects
-        const processedQuizzes = quizzesToRestore.map(quiz => ({
+        const processedQuizzes = await Promise.all(quizzesToRestore.map(async (quiz: any) => ({
           ...quiz,
           createdAt: new Date(quiz.createdAt),
           lastTaken: quiz.lastTaken ? new Date(quiz.lastTaken) : undefined,
+          questions: await internQuestionImages(ensureQuestionIds(quiz.questions || []), backupImages),
           history: quiz.history ? quiz.history.map((attempt: QuizAttempt) => ({
             ...attempt,
             date: new Date(attempt.date)
           })) : []
-        }));
+        })));
         
         // Update state with restored quizzes
         setQuizzes(processedQuizzes);
@@ -200,98 +340,42 @@ export default function QuizApp() {
     };
   }, []);
 
-  // Helper function to load data from localStorage with chunking support
-  const loadFromLocalStorage = (key: string, defaultValue: any = null) => {
-    try {
-      const value = localStorage.getItem(key);
-
-      console.log(`Loading data with key ${key}, value found: ${value !== null}`);
-
-      // Return default value if not found
-      if (value === null) {
-        console.log(`No data found for key ${key}, returning default value`);
-        return defaultValue;
-      }
-
-      // Check if data is chunked
-      if (value.startsWith('__CHUNKED__')) {
-        console.log(`Found chunked data for key ${key}`);
-        const chunks = parseInt(localStorage.getItem(`${key}_chunks`) || '0', 10);
-
-        if (chunks <= 0) {
-          console.error(`Invalid chunks count for key ${key}: ${chunks}`);
-          return defaultValue;
-        }
-
-        console.log(`Attempting to load ${chunks} chunks for key ${key}`);
-        let jsonString = '';
-
-        // Combine all chunks
-        for (let i = 0; i < chunks; i++) {
-          const chunk = localStorage.getItem(`${key}_chunk_${i}`);
-          if (chunk) {
-            jsonString += chunk;
-          } else {
-            console.error(`Missing chunk ${i} of ${chunks} for key ${key}`);
-            throw new Error(`Missing chunk ${i} of ${chunks}`);
-          }
-        }
-
-        console.log(`Successfully loaded all chunks for key ${key}, parsing JSON`);
-        const parsedData = JSON.parse(jsonString);
-        return parsedData;
-      }
-
-      // Regular data
-      console.log(`Loading regular data for key ${key}`);
-      const parsedData = JSON.parse(value);
-      return parsedData;
-    } catch (error) {
-      console.error(`Error loading data from localStorage with key ${key}:`, error);
-      return defaultValue;
-    }
-  };
-
   const [activeTab, setActiveTab] = useState("create")
-  // Load quizzes from localStorage on initialization
-  const [quizzes, setQuizzes] = useState<Quiz[]>(() => {
-    try {
-      console.log("Loading quizzes from localStorage on initial mount");
-      // Use our enhanced localStorage function that supports chunking
-      const savedQuizzes = loadFromLocalStorage('quizzes', [])
-
-      if (savedQuizzes && Array.isArray(savedQuizzes)) {
-        // Convert date strings back to Date objects
-        return savedQuizzes.map(quiz => ({
-          ...quiz,
-          createdAt: new Date(quiz.createdAt),
-          lastTaken: quiz.lastTaken ? new Date(quiz.lastTaken) : undefined,
-          history: quiz.history ? quiz.history.map((attempt: QuizAttempt) => ({
-            ...attempt,
-            date: new Date(attempt.date)
-          })) : []
-        }))
-      } else {
-        console.log("No quizzes found in localStorage");
-        return [] // Default to empty array if not an array
-      }
-    } catch (e) {
-      console.error('Failed to parse quizzes from localStorage', e)
-      return []
-    }
-  })
+  // Quizzes are read from IndexedDB after mount; nothing is saved until that has finished
+  const [quizzes, setQuizzes] = useState<Quiz[]>([])
+  const [quizzesLoaded, setQuizzesLoaded] = useState(false)
+  // What IndexedDB holds as of the last save; empty at first, so the first save writes back what was loaded
+  const savedQuizzesRef = React.useRef<Quiz[]>([])
+  const [storageEstimate, setStorageEstimate] = useState<StorageEstimate | null>(null)
   const [currentQuiz, setCurrentQuiz] = useState<Quiz | null>(null)
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0)
-  const [selectedAnswers, setSelectedAnswers] = useState<string[]>([])
+  const [selectedAnswers, setSelectedAnswers] = useState<Answer[]>([])
   const [score, setScore] = useState(0)
+  const [weightedScore, setWeightedScore] = useState({ points: 0, max: 0 })  // Score under the quiz's marking scheme
   const [timer, setTimer] = useState(0)
   const [isQuizRunning, setIsQuizRunning] = useState(false)
+  const [quizMode, setQuizMode] = useState<QuizMode>('exam')
+  const [lockedQuestions, setLockedQuestions] = useState<boolean[]>([])  // Practice mode: questions already marked
+  const [questionOrder, setQuestionOrder] = useState<number[]>([])  // Quiz index of each question in the running attempt
+  // Sections of the running attempt - empty for quizzes without sections
+  const [sectionRanges, setSectionRanges] = useState<SectionRange[]>([])
+  const [currentSectionIndex, setCurrentSectionIndex] = useState(0)
+  const [isSectionIntro, setIsSectionIntro] = useState(false)  // Showing a section's instructions; its clock hasn't started
+  const [sectionStartTimer, setSectionStartTimer] = useState(0)  // Timer value when the current section started
+  const [sectionTimeSpent, setSectionTimeSpent] = useState<number[]>([])
+  const [sectionResults, setSectionResults] = useState<SectionResult[]>([])
+  const [questionTimes, setQuestionTimes] = useState<number[]>([])  // Seconds spent on each question of the running attempt
+  const [visitedQuestions, setVisitedQuestions] = useState<boolean[]>([])  // Questions the learner has opened at least once
+  const [changedAnswers, setChangedAnswers] = useState<boolean[]>([])  // Questions whose answer the learner has changed
+  const [markedForReview, setMarkedForReview] = useState<boolean[]>([])
+  const [isSubmitSummaryOpen, setIsSubmitSummaryOpen] = useState(false)  // Unanswered/flagged check before leaving a section or finishing
+  const [pendingResume, setPendingResume] = useState<SavedAttempt | null>(null)  // Attempt interrupted by a reload or crash
   const [showResults, setShowResults] = useState(false)
   const [passwordInput, setPasswordInput] = useState("")
   const [passwordDialogOpen, setPasswordDialogOpen] = useState(false)
   const [quizToEdit, setQuizToEdit] = useState<number | null>(null)
+  const [editFocusQuestion, setEditFocusQuestion] = useState<number | null>(null)  // Question to scroll to once the editor opens
   const [isEditMode, setIsEditMode] = useState(false)
-  const MASTER_PASSWORD = "8387"  // Password protection for quiz deletion
   const [newQuiz, setNewQuiz] = useState<Quiz>({
     id: uuidv4(),
     title: '',
@@ -304,16 +388,7 @@ export default function QuizApp() {
     history: [],
     version: 1
   })
-  const [newQuestions, setNewQuestions] = useState<Question[]>([
-    {
-      question: '',
-      answerDescription: '',
-      options: ['', '', '', ''],
-      correctAnswer: '',
-      questionImages: [],
-      answerImages: [],
-    },
-  ])
+  const [newQuestions, setNewQuestions] = useState<Question[]>([createEmptyQuestion()])
   // Clean sample JSON format without comments
   const sampleJsonFormat = `[
   {
@@ -369,6 +444,68 @@ export default function QuizApp() {
         "correctAnswer": "4",
         "questionImages": [],
         "answerImages": []
+      },
+      {
+        "type": "multiple",                                // Optional: "single" (default) or "multiple" for select-all-that-apply
+        "question": "Which of these are prime numbers?",
+        "answerDescription": "2, 3 and 5 have no divisors other than 1 and themselves.",
+        "options": ["2", "3", "4", "5"],
+        "correctAnswers": ["2", "3", "5"],                 // Every correct option (multiple only)
+        "partialCredit": "proportional",                   // "all-or-nothing" (default), "proportional" or "right-minus-wrong"
+        "questionImages": [],
+        "answerImages": []
+      },
+      {
+        "type": "numeric",                                 // Free-entry number answer
+        "question": "What is the acceleration due to gravity on Earth?",
+        "answerDescription": "Standard gravity is about 9.81 m/s².",
+        "options": [],
+        "numericAnswer": {
+          "value": 9.81,                                   // Expected value (required)
+          "tolerance": 1,                                  // Optional allowed error
+          "toleranceType": "relative",                     // "absolute" (± value) or "relative" (± percent of value)
+          "units": ["m/s²", "m/s^2"]                       // Optional accepted units
+        },
+        "questionImages": [],
+        "answerImages": []
+      },
+      {
+        "type": "ordering",                                // Arrange items in sequence
+        "question": "Arrange these planets by distance from the Sun.",
+        "answerDescription": "Mercury, Venus, Earth, Mars.",
+        "options": ["Mercury", "Venus", "Earth", "Mars"],  // Items in the correct order (shown shuffled)
+        "questionImages": [],
+        "answerImages": []
+      },
+      {
+        "type": "matching",                                // Match column A to column B
+        "question": "Match each country to its capital.",
+        "answerDescription": "",
+        "options": [],
+        "pairs": [
+          { "left": "India", "right": "New Delhi" },
+          { "left": "Japan", "right": "Tokyo" }
+        ],
+        "questionImages": [],
+        "answerImages": []
+      },
+      {
+        "type": "boolean",                                 // True/False question
+        "question": "Water boils at 100°C at sea level.",
+        "answerDescription": "At 1 atm pressure water boils at 100°C.",
+        "options": ["True", "False"],
+        "correctAnswer": "True",                           // "True" or "False"
+        "questionImages": [],
+        "answerImages": []
+      },
+      {
+        "format": "markdown",                              // Render question and answerDescription as Markdown
+        "question": "Which of these is **not** a prime number?",
+        "answerDescription": "A prime has exactly two divisors:\\n\\n- $9 = 3 \\\\times 3$\\n- so **9** is composite.",
+        "options": ["2", "7", "9", "11"],
+        "correctAnswer": "9",
+        "questionImages": [],
+        "answerImages": []
       }
     ]
   }
@@ -395,215 +532,124 @@ export default function QuizApp() {
   const [customCategoryInput, setCustomCategoryInput] = useState("")
   
   const { toast } = useToast()
+  const { status, user, roleFor, refreshQuizRoles } = useAuth()
+  const [isSyncing, setIsSyncing] = useState(false)
 
-  // Helper function to save data to localStorage with chunking support
-  const saveToLocalStorage = (key: string, data: any) => {
-    try {
-      // First convert Dates to ISO strings to ensure proper serialization
-      const preparedData = JSON.parse(JSON.stringify(data));
-      const jsonString = JSON.stringify(preparedData);
-
-      // Debug log to verify serialization
-      console.log(`Saving data with key ${key}, size: ${jsonString.length} bytes`);
-
-      // If data is small enough, save directly
-      if (jsonString.length < 2000000) { // ~2MB safety threshold
-        localStorage.setItem(key, jsonString);
-        // Clean up any chunks from previous saves
-        for (let i = 0; i < 20; i++) {
-          const chunkKey = `${key}_chunk_${i}`;
-          if (localStorage.getItem(chunkKey)) {
-            localStorage.removeItem(chunkKey);
-          } else {
-            break;
-          }
-        }
-
-        // Also clean up the chunks metadata if it exists
-        if (localStorage.getItem(`${key}_chunks`)) {
-          localStorage.removeItem(`${key}_chunks`);
-        }
-
-        console.log(`Saved data normally to key: ${key}`);
-        return true;
-      }
-
-      // For large data, split into chunks
-      const chunkSize = 1000000; // ~1MB chunks
-      const chunks = Math.ceil(jsonString.length / chunkSize);
-
-      console.log(`Data too large. Splitting into ${chunks} chunks.`);
-
-      // Store metadata
-      localStorage.setItem(`${key}_chunks`, chunks.toString());
-
-      // Store each chunk
-      for (let i = 0; i < chunks; i++) {
-        const start = i * chunkSize;
-        const end = start + chunkSize;
-        const chunk = jsonString.substring(start, end);
-        localStorage.setItem(`${key}_chunk_${i}`, chunk);
-      }
-
-      // Store a small indicator in the main key
-      localStorage.setItem(key, `__CHUNKED__${chunks}`);
-      console.log(`Saved data in ${chunks} chunks with key: ${key}`);
-      return true;
-    } catch (error) {
-      console.error("Storage error:", error);
-      if (error instanceof Error) {
-        toast({
-          title: "Storage Error",
-          description: "Could not save data: " + error.message,
-          variant: "destructive",
-        });
-      }
-      return false;
-    }
-  }
+  // Save quizzes to IndexedDB whenever they change, once the stored ones have been loaded.
+  // Only the quizzes that changed since the last successful save are written
+  useEffect(() => {
+    if (!quizzesLoaded) return;
 
-  // This comment marks where the loadFromLocalStorage function was previously defined
-  // The function is now defined at the top of the component to fix initialization order issues
-
-  // Function to compress base64 images for smaller export files
-  const optimizeImages = (quizzesList: Quiz[]) => {
-    // Lower threshold to aggressively compress all images
-    const MAX_IMAGE_SIZE = 50000 // ~50KB threshold for aggressive compression
-
-    return quizzesList.map(quiz => {
-      // Deep clone to avoid modifying the original
-      const optimizedQuiz = JSON.parse(JSON.stringify(quiz));
-
-      // Process each question
-      optimizedQuiz.questions = optimizedQuiz.questions.map((question: Question) => {
-        // Always compress every image to reduce export size
-        const optimizedQuestionImages = question.questionImages.map((img: string) => {
-          if (img && img.startsWith('data:image')) {
-            // Determine compression level based on size
-            if (img.length > MAX_IMAGE_SIZE * 4) {
-              // Very large images get more compression
-              return compressBase64Image(img, 0.3, 800); // 30% quality, max 800px
-            } else if (img.length > MAX_IMAGE_SIZE) {
-              // Large images get medium compression
-              return compressBase64Image(img, 0.5, 1000); // 50% quality, max 1000px
-            } else {
-              // Smaller images still get some compression
-              return compressBase64Image(img, 0.7, 1200); // 70% quality, max 1200px
-            }
-          }
-          return img;
-        });
+    saveQuizzes(quizzes, savedQuizzesRef.current)
+      .then(() => {
+        savedQuizzesRef.current = quizzes
+        getStorageEstimate().then(setStorageEstimate);
 
-        // Optimize answer images with the same approach
-        const optimizedAnswerImages = question.answerImages.map((img: string) => {
-          if (img && img.startsWith('data:image')) {
-            if (img.length > MAX_IMAGE_SIZE * 4) {
-              return compressBase64Image(img, 0.3, 800);
-            } else if (img.length > MAX_IMAGE_SIZE) {
-              return compressBase64Image(img, 0.5, 1000);
+        // Save to Android external storage (if available) for persistent backup
+        if (window.ExternalStorage) {
+          try {
+            // Questions only reference their images, so back them up alongside
+            const jsonString = JSON.stringify(bundleQuizzes(quizzes));
+            
+            // Save to external storage using the Android bridge
+            const backupSuccess = window.ExternalStorage.saveBackup(jsonString);
+            
+            if (backupSuccess) {
+              console.log("Successfully backed up quizzes to external storage");
             } else {
-              return compressBase64Image(img, 0.7, 1200);
+              console.warn("Failed to back up quizzes to external storage");
             }
+          } catch (backupError) {
+            console.error("Error during external storage backup:", backupError);
           }
-          return img;
-        });
-
-        return {
-          ...question,
-          questionImages: optimizedQuestionImages,
-          answerImages: optimizedAnswerImages
-        };
-      });
-
-      return optimizedQuiz;
-    });
-  }
+        }
+      })
+      .catch((error) => {
+        console.error("Failed to save quizzes:", error)
+        if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+          toast({
+            title: "Storage Full",
+            description: "Unable to save quizzes - storage is full. Try removing some quizzes or images.",
+            variant: "destructive",
+          });
+        } else {
+          toast({
+            title: "Save Error",
+            description: "There was a problem saving your quizzes. Your recent changes might not be saved.",
+            variant: "destructive",
+          })
+        }
+      })
+  }, [quizzes, quizzesLoaded])
 
-  // Save quizzes to localStorage whenever they change
+  // Load quizzes from IndexedDB on component mount, moving over any left in localStorage by older versions
   useEffect(() => {
-    try {
-      // First, make sure we have quizzes to save
-      if (quizzes.length === 0) return;
-
-      // Then optimize images if there are any to reduce storage size
-      const optimizedQuizzes = optimizeImages(quizzes)
-
-      // Always use our saveToLocalStorage function which handles both small and large datasets
-      const saveSuccess = saveToLocalStorage('quizzes', optimizedQuizzes);
-
-      // Save to Android external storage (if available) for persistent backup
-      if (window.ExternalStorage && saveSuccess) {
-        try {
-          // Create a JSON string of the optimized quizzes
-          const jsonString = JSON.stringify(optimizedQuizzes);
-          
-          // Save to external storage using the Android bridge
-          const backupSuccess = window.ExternalStorage.saveBackup(jsonString);
-          
-          if (backupSuccess) {
-            console.log("Successfully backed up quizzes to external storage");
-          } else {
-            console.warn("Failed to back up quizzes to external storage");
-          }
-        } catch (backupError) {
-          console.error("Error during external storage backup:", backupError);
+    const loadStoredQuizzes = async () => {
+      try {
+        const migrated = await migrateFromLocalStorage();
+        if (migrated > 0) {
+          console.log(`Moved ${migrated} quizzes from localStorage to IndexedDB`);
         }
-      }
-
-      if (!saveSuccess) {
-        // If saving fails completely, show a more detailed error
+      } catch (error) {
+        // The old copy stays in localStorage and the move is tried again on the next load
+        console.error("Failed to move quizzes from localStorage:", error);
         toast({
-          title: "Storage Full",
-          description: "Unable to save quizzes - storage is full. Try removing some quizzes or images.",
+          title: "Migration Error",
+          description: "Quizzes saved by an older version couldn't be moved to the new storage.",
           variant: "destructive",
         });
       }
-    } catch (error) {
-      console.error("Failed to save quizzes:", error)
-      toast({
-        title: "Save Error",
-        description: "There was a problem saving your quizzes. Your recent changes might not be saved.",
-        variant: "destructive",
-      })
-    }
-  }, [quizzes])
 
-  // Load quizzes from localStorage on component mount
-  useEffect(() => {
-    try {
-      console.log("Loading quizzes from localStorage on initial mount");
-      const savedQuizzes = loadFromLocalStorage('quizzes', []);
-
-      if (savedQuizzes && Array.isArray(savedQuizzes) && savedQuizzes.length > 0) {
-        // Convert date strings back to Date objects
-        const processedQuizzes = savedQuizzes.map(quiz => ({
+      try {
+        await loadImageStore();
+        const savedQuizzes = await loadQuizzes<Quiz>();
+        // Quizzes from older versions still have their images inline
+        const processedQuizzes = await Promise.all(savedQuizzes.map(async quiz => ({
           ...quiz,
+          // Quizzes moved from localStorage still have their dates as strings
           createdAt: new Date(quiz.createdAt),
           lastTaken: quiz.lastTaken ? new Date(quiz.lastTaken) : undefined,
+          questions: await internQuestionImages(ensureQuestionIds(quiz.questions || [])),
           history: quiz.history ? quiz.history.map((attempt: QuizAttempt) => ({
             ...attempt,
             date: new Date(attempt.date)
           })) : []
-        }));
+        })));
 
-        console.log(`Loaded ${processedQuizzes.length} quizzes from localStorage`);
-        setQuizzes(processedQuizzes);
+        // Nothing else holds image references yet, so any image no quiz uses can go
+        try {
+          const removed = await collectImageGarbage(processedQuizzes);
+          if (removed > 0) {
+            console.log(`Removed ${removed} unused images`);
+          }
+        } catch (gcError) {
+          console.error("Failed to remove unused images:", gcError);
+        }
+
+        if (processedQuizzes.length > 0) {
+          console.log(`Loaded ${processedQuizzes.length} quizzes from IndexedDB`);
+          setQuizzes(processedQuizzes);
 
+          toast({
+            title: "Quizzes Loaded",
+            description: `Successfully loaded ${processedQuizzes.length} quizzes.`,
+          });
+        } else {
+          console.log("No saved quizzes found");
+        }
+        setQuizzesLoaded(true);
+      } catch (error) {
+        // Saving stays off so the stored quizzes aren't overwritten with an empty list
+        console.error("Failed to load quizzes from IndexedDB:", error);
         toast({
-          title: "Quizzes Loaded",
-          description: `Successfully loaded ${processedQuizzes.length} quizzes.`,
+          title: "Load Error",
+          description: "There was a problem loading your saved quizzes. Changes won't be saved until the page is reloaded.",
+          variant: "destructive",
         });
-      } else {
-        console.log("No quizzes found in localStorage");
       }
-    } catch (error) {
-      console.error("Failed to load quizzes from localStorage:", error);
-      toast({
-        title: "Load Error",
-        description: "There was a problem loading your saved quizzes.",
-        variant: "destructive",
-      });
-    }
+      getStorageEstimate().then(setStorageEstimate);
+    };
+    loadStoredQuizzes();
   }, []);
 
   // Create a ref for the audio element
@@ -709,7 +755,14 @@ export default function QuizApp() {
   }, [quizzes, searchQuery, selectedCategory]);
 
   useEffect(() => {
-    if (isQuizRunning && timer > 0) {
+    // The clock doesn't run while a section's instructions are shown
+    if (isQuizRunning && isSectionIntro) return
+
+    if (isQuizRunning && quizMode === 'practice') {
+      // Practice has no time limit, the timer just counts up
+      const interval = setInterval(() => setTimer((prevTimer) => prevTimer + 1), 1000)
+      return () => clearInterval(interval)
+    } else if (isQuizRunning && timer > 0) {
       const interval = setInterval(() => {
         setTimer((prevTimer) => {
           // Play sound when timer is 30 seconds or less
@@ -721,22 +774,17 @@ export default function QuizApp() {
       }, 1000)
       return () => clearInterval(interval)
     } else if (timer === 0 && isQuizRunning) {
-      finishQuiz()
+      // A section that runs out of time hands over to the next one
+      if (currentSectionIndex < sectionRanges.length - 1) {
+        startNextSection()
+      } else {
+        finishQuiz()
+      }
     }
-  }, [isQuizRunning, timer])
+  }, [isQuizRunning, timer, quizMode, isSectionIntro])
 
   const handleAddQuestion = () => {
-    setNewQuestions((prev) => [
-      ...prev,
-      {
-        question: '',
-        answerDescription: '',
-        options: ['', '', '', ''],
-        correctAnswer: '',
-        questionImages: [],
-        answerImages: [],
-      },
-    ])
+    setNewQuestions((prev) => [...prev, createEmptyQuestion()])
   }
 
   const handleQuestionChange = (index: number, field: keyof Question, value: string) => {
@@ -746,21 +794,139 @@ export default function QuizApp() {
   }
 
   const handleOptionChange = (index: number, optionIndex: number, value: string) => {
+    setNewQuestions((prev) =>
+      prev.map((q, i) => {
+        if (i !== index) return q
+        const previousValue = q.options[optionIndex]
+        return {
+          ...q,
+          options: q.options.map((opt, optIdx) => (optIdx === optionIndex ? value : opt)),
+          // Keep the marked correct answers pointing at the edited option
+          correctAnswer: q.correctAnswer === previousValue && previousValue !== '' ? value : q.correctAnswer,
+          ...(q.correctAnswers
+            ? { correctAnswers: q.correctAnswers.map(answer => (answer === previousValue ? value : answer)) }
+            : {}),
+        }
+      })
+    )
+  }
+
+  const handleCorrectAnswerChange = (index: number, value: string) => {
+    setNewQuestions((prev) =>
+      prev.map((q, i) => (i === index ? { ...q, correctAnswer: value } : q))
+    )
+  }
+
+  // Toggle an option in the correct answer set of a multiple-select question
+  const handleCorrectAnswerToggle = (index: number, value: string) => {
+    setNewQuestions((prev) =>
+      prev.map((q, i) => {
+        if (i !== index) return q
+        const correctAnswers = q.correctAnswers || []
+        return {
+          ...q,
+          correctAnswers: correctAnswers.includes(value)
+            ? correctAnswers.filter(answer => answer !== value)
+            : [...correctAnswers, value],
+        }
+      })
+    )
+  }
+
+  // Set a question's weight; clearing the field (or a non-positive value) falls back to 1
+  const handlePointsChange = (index: number, value: string) => {
+    const points = parseFloat(value)
+    setNewQuestions((prev) =>
+      prev.map((q, i) => (i === index ? { ...q, points: points > 0 ? points : undefined } : q))
+    )
+  }
+
+  // Set a question's own time limit; clearing the field falls back to the quiz-wide limit
+  const handleTimeLimitChange = (index: number, value: string) => {
+    const seconds = parseInt(value)
+    setNewQuestions((prev) =>
+      prev.map((q, i) => (i === index ? { ...q, timeLimit: seconds > 0 ? seconds : undefined } : q))
+    )
+  }
+
+  // Switch a question to another kind, keeping whatever answer data still applies
+  const handleQuestionTypeChange = (index: number, type: QuestionType) => {
+    setNewQuestions((prev) =>
+      prev.map((q, i) => (i === index ? convertQuestionType(q, type) : q))
+    )
+  }
+
+  // Add a blank option (or ordering item) to a question, up to the option limit for choice questions
+  const handleAddOption = (index: number) => {
+    setNewQuestions((prev) =>
+      prev.map((q, i) =>
+        i === index && !(usesOptions(q) && q.options.length >= MAX_OPTIONS)
+          ? { ...q, options: [...q.options, ''] }
+          : q
+      )
+    )
+  }
+
+  // Remove an option (or ordering item), dropping it from the correct answers too
+  const handleRemoveOption = (index: number, optionIndex: number) => {
+    setNewQuestions((prev) =>
+      prev.map((q, i) => {
+        if (i !== index) return q
+        const removed = q.options[optionIndex]
+        return {
+          ...q,
+          options: q.options.filter((_, optIdx) => optIdx !== optionIndex),
+          correctAnswer: q.correctAnswer === removed ? '' : q.correctAnswer,
+          ...(q.correctAnswers ? { correctAnswers: q.correctAnswers.filter(answer => answer !== removed) } : {}),
+        }
+      })
+    )
+  }
+
+  const handlePairChange = (index: number, pairIndex: number, side: keyof MatchPair, value: string) => {
     setNewQuestions((prev) =>
       prev.map((q, i) =>
         i === index
-          ? {
-              ...q,
-              options: q.options.map((opt, optIdx) => (optIdx === optionIndex ? value : opt)),
-            }
+          ? { ...q, pairs: (q.pairs || []).map((pair, pIdx) => (pIdx === pairIndex ? { ...pair, [side]: value } : pair)) }
           : q
       )
     )
   }
 
-  const handleCorrectAnswerChange = (index: number, value: string) => {
+  const handleAddPair = (index: number) => {
     setNewQuestions((prev) =>
-      prev.map((q, i) => (i === index ? { ...q, correctAnswer: value } : q))
+      prev.map((q, i) => (i === index ? { ...q, pairs: [...(q.pairs || []), { left: '', right: '' }] } : q))
+    )
+  }
+
+  const handleRemovePair = (index: number, pairIndex: number) => {
+    setNewQuestions((prev) =>
+      prev.map((q, i) => (i === index ? { ...q, pairs: (q.pairs || []).filter((_, pIdx) => pIdx !== pairIndex) } : q))
+    )
+  }
+
+  // Accepted answers and patterns are edited one per line
+  const handleAcceptedAnswersChange = (index: number, field: 'acceptedAnswers' | 'acceptedPatterns', value: string) => {
+    setNewQuestions((prev) =>
+      prev.map((q, i) => (i === index ? { ...q, [field]: value.split('\n') } : q))
+    )
+  }
+
+  const handleNumericAnswerChange = (index: number, field: keyof NumericAnswer, value: string) => {
+    setNewQuestions((prev) =>
+      prev.map((q, i) => {
+        if (i !== index) return q
+        const numericAnswer = q.numericAnswer || { value: NaN }
+        let fieldValue: NumericAnswer[keyof NumericAnswer]
+        if (field === 'units') {
+          fieldValue = value.split(',').map(unit => unit.trim()).filter(unit => unit !== '')
+        } else if (field === 'toleranceType') {
+          fieldValue = value as NumericAnswer['toleranceType']
+        } else {
+          fieldValue = value.trim() === '' ? (field === 'value' ? NaN : 0) : parseFloat(value)
+        }
+        return { ...q, numericAnswer: { ...numericAnswer, [field]: fieldValue } }
+      })
     )
   }
 
@@ -768,78 +934,460 @@ export default function QuizApp() {
     setNewQuestions((prev) => prev.filter((_, i) => i !== index))
   }
 
-  const handleStartQuiz = (quiz: Quiz) => {
-    const now = new Date()
-    if (quiz.lastTaken) {
-      const lastTaken = new Date(quiz.lastTaken)
-      const timeDifference = now.getTime() - lastTaken.getTime()
-      const tenMinutes = 10 * 60 * 1000
-      if (timeDifference < tenMinutes) {
+  const handleStartQuiz = (quiz: Quiz, mode: QuizMode = 'exam') => {
+    // Practice runs don't count as attempts, so they aren't held back by the retake policy
+    if (mode === 'exam') {
+      const retakeStatus = getRetakeStatus(quiz.settings?.retake, quiz.history, quiz.lastTaken)
+      if (!retakeStatus.allowed) {
         toast({
-          title: "Quiz Cooldown",
-          description: "You can retake this quiz after 10 minutes.",
+          title: "Quiz Unavailable",
+          description: describeRetakeStatus(retakeStatus),
           variant: "destructive",
         })
         return
       }
     }
-    setCurrentQuiz(quiz)
+    // The running quiz holds the questions as this attempt presents them (shuffled, subset...)
+    const layout = buildAttemptLayout(quiz.questions, quiz.settings, quiz.sections)
+    setCurrentQuiz({ ...quiz, questions: layout.questions })
+    setQuestionOrder(layout.questionOrder)
     setCurrentQuestionIndex(0)
-    setSelectedAnswers(new Array(quiz.questions.length).fill(''))
+    setSelectedAnswers(layout.questions.map(createInitialAnswer))
     setScore(0)
-    setTimer(quiz.timer)
+    setQuizMode(mode)
+    setLockedQuestions(layout.questions.map(() => false))
+
+    // Sectioned quizzes open on the first section's instructions and run on per-section clocks
+    const startTimer = mode === 'practice'
+      ? 0
+      : layout.sections.length > 0 ? layout.sections[0].section.timer : quiz.timer
+    setSectionRanges(layout.sections)
+    setCurrentSectionIndex(0)
+    setIsSectionIntro(layout.sections.length > 0)
+    setSectionTimeSpent(layout.sections.map(() => 0))
+    setSectionResults([])
+    setQuestionTimes(layout.questions.map(() => 0))
+    setVisitedQuestions(layout.questions.map(() => false))
+    setChangedAnswers(layout.questions.map(() => false))
+    setMarkedForReview(layout.questions.map(() => false))
+    setIsSubmitSummaryOpen(false)
+    setTimer(startTimer)
+    setSectionStartTimer(startTimer)
     setIsQuizRunning(true)
     setShowResults(false)
     setIsQuizModalOpen(true)
   }
 
-  const handleAnswer = (selectedOption: string) => {
-    setSelectedAnswers((prev) => {
-      const newAnswers = [...prev]
-      newAnswers[currentQuestionIndex] = selectedOption
-      return newAnswers
-    })
+  // Today's review queue across all quizzes, most overdue first
+  const dueReviews = useMemo(() => {
+    const now = new Date()
+    return quizzes
+      .flatMap((quiz) => (quiz.review || []).filter((card) => isReviewDue(card, now)).flatMap((card): ReviewItem[] => {
+        const index = findReviewQuestion(quiz.questions, card)
+        return index === -1 ? [] : [{
+          key: `${quiz.id}:${card.questionId ?? `${card.questionIndex}:${card.question}`}`,
+          quizId: quiz.id,
+          quizTitle: quiz.title,
+          question: quiz.questions[index],
+          card: { ...card, questionIndex: index },
+        }]
+      }))
+      .sort((a, b) => new Date(a.card.due).getTime() - new Date(b.card.due).getTime())
+  }, [quizzes])
+
+  const handleReviewGrade = (item: ReviewItem, grade: ReviewGrade) => {
+    setQuizzes((prev) =>
+      prev.map((quiz) =>
+        quiz.id === item.quizId
+          ? {
+              ...quiz,
+              review: (quiz.review || []).map((card) =>
+                card.question === item.card.question && findReviewQuestion(quiz.questions, card) === item.card.questionIndex
+                  ? scheduleReview(item.card, grade)
+                  : card
+              ),
+            }
+          : quiz
+      )
+    )
+  }
+
+  // Keep a snapshot of the running attempt so a reload or crash doesn't lose it
+  useEffect(() => {
+    if (!isQuizRunning || !currentQuiz) return
+    saveAttempt({
+      quizId: currentQuiz.id,
+      mode: quizMode,
+      questionOrder,
+      options: currentQuiz.questions.map((question) => question.options),
+      selectedAnswers,
+      currentQuestionIndex,
+      lockedQuestions,
+      visitedQuestions,
+      changedAnswers,
+      markedForReview,
+      questionTimes,
+      timer,
+      currentSectionIndex,
+      isSectionIntro,
+      sectionStartTimer,
+      sectionTimeSpent,
+      savedAt: Date.now(),
+    })
+  }, [isQuizRunning, currentQuiz, timer, selectedAnswers, currentQuestionIndex, lockedQuestions, visitedQuestions, changedAnswers, markedForReview, questionTimes, currentSectionIndex, isSectionIntro, sectionTimeSpent])
+
+  // Offer to pick up an attempt left unfinished by a reload or crash, once the stored quizzes are in
+  useEffect(() => {
+    if (!quizzesLoaded) return
+    const saved = loadSavedAttempt()
+    if (!saved) return
+    if (quizzes.some((quiz) => quiz.id === saved.quizId)) {
+      setPendingResume(saved)
+    } else {
+      clearSavedAttempt()
+    }
+  }, [quizzesLoaded])
+
+  const handleResumeAttempt = () => {
+    const saved = pendingResume
+    setPendingResume(null)
+    if (!saved) return
+
+    const quiz = quizzes.find((q) => q.id === saved.quizId)
+    const questions = quiz ? restoreAttemptQuestions(quiz.questions, saved) : null
+    if (!quiz || !questions) {
+      clearSavedAttempt()
+      toast({
+        title: "Can't Resume",
+        description: "The quiz has changed since this attempt was started.",
+        variant: "destructive",
+      })
+      return
+    }
+
+    const ranges = quiz.sections && quiz.sections.length > 0 ? getSectionRanges(questions, quiz.sections) : []
+    const attempt = applyTimeAway(saved, questions, quiz.settings, ranges)
+    setCurrentQuiz({ ...quiz, questions })
+    setQuestionOrder(attempt.questionOrder)
+    setSelectedAnswers(attempt.selectedAnswers)
+    setCurrentQuestionIndex(attempt.currentQuestionIndex)
+    setScore(0)
+    setQuizMode(attempt.mode)
+    setLockedQuestions(attempt.lockedQuestions)
+    setSectionRanges(ranges)
+    setCurrentSectionIndex(attempt.currentSectionIndex)
+    setIsSectionIntro(attempt.isSectionIntro)
+    setSectionTimeSpent(attempt.sectionTimeSpent)
+    setSectionResults([])
+    setQuestionTimes(attempt.questionTimes)
+    setVisitedQuestions(attempt.visitedQuestions)
+    // Attempts saved before changes were tracked only know which questions were opened
+    setChangedAnswers(attempt.changedAnswers || attempt.visitedQuestions)
+    setMarkedForReview(attempt.markedForReview)
+    setIsSubmitSummaryOpen(false)
+    setTimer(attempt.timer)
+    setSectionStartTimer(attempt.sectionStartTimer)
+    setIsQuizRunning(true)
+    setShowResults(false)
+    setIsQuizModalOpen(true)
+
+    // The timer effect closes the section or submits the quiz straight away
+    if (attempt.currentSectionIndex > saved.currentSectionIndex) {
+      const skipped = attempt.currentSectionIndex - saved.currentSectionIndex
+      toast({
+        title: "Time's Up",
+        description: attempt.timer === 0
+          ? "Time ran out for the remaining sections while you were away, so your answers have been submitted."
+          : `Time ran out for ${skipped === 1 ? "a section" : `${skipped} sections`} while you were away.`,
+      })
+    } else if (attempt.mode === 'exam' && attempt.timer === 0) {
+      toast({
+        title: "Time's Up",
+        description: attempt.currentSectionIndex < ranges.length - 1
+          ? "Time ran out for this section while you were away."
+          : "Time ran out while you were away, so your answers have been submitted.",
+      })
+    }
+  }
+
+  const handleDiscardAttempt = () => {
+    setPendingResume(null)
+    clearSavedAttempt()
+  }
+
+  // Start a one-off quiz with just the questions missed in a past attempt
+  // It gets its own id and title, so it isn't held back by retake rules and doesn't add to the quiz's history
+  const handleRetryIncorrect = (quiz: Quiz, attempt: QuizAttempt) => {
+    const questions = getIncorrectQuestions(quiz.questions, attempt)
+    if (questions.length === 0) {
+      toast({
+        title: "Nothing to Retry",
+        description: attempt.questionResults
+          ? "Every question in this attempt was answered correctly, or has changed since."
+          : "This attempt doesn't have question details to retry from.",
+      })
+      return
+    }
+
+    const { questionCount, retake, ...settings } = quiz.settings || {}
+    handleStartQuiz({
+      ...quiz,
+      id: uuidv4(),
+      title: `${quiz.title} (retry incorrect)`,
+      questions,
+      // Same time per question as the full quiz, rounded up to whole minutes
+      timer: Math.max(60, Math.ceil(quiz.timer * questions.length / quiz.questions.length / 60) * 60),
+      sections: [],
+      settings: { ...settings, retake: { type: 'unlimited' } },
+      history: [],
+      review: [],
+    })
+  }
+
+  // In practice mode an answer can't be changed once it has been marked
+  const isPracticeChecked = quizMode === 'practice' && !!lockedQuestions[currentQuestionIndex]
+
+  // In exams a question with a time limit is read-only once its time is used up
+  const currentTimeLimit = quizMode === 'exam' && currentQuiz?.questions[currentQuestionIndex]
+    ? getQuestionTimeLimit(currentQuiz.questions[currentQuestionIndex], currentQuiz.settings)
+    : undefined
+  const isCurrentQuestionTimeUp = currentTimeLimit !== undefined && (questionTimes[currentQuestionIndex] || 0) >= currentTimeLimit
+
+  const isCurrentQuestionLocked = isPracticeChecked || isCurrentQuestionTimeUp
+
+  const handleAnswer = (selectedOption: Answer) => {
+    if (isCurrentQuestionLocked) return
+    setSelectedAnswers((prev) => {
+      const newAnswers = [...prev]
+      newAnswers[currentQuestionIndex] = selectedOption
+      return newAnswers
+    })
+    setChangedAnswers((prev) => {
+      const newChanged = [...prev]
+      newChanged[currentQuestionIndex] = true
+      return newChanged
+    })
+    const question = currentQuiz?.questions[currentQuestionIndex]
+    if (quizMode === 'practice' && question && isAnsweredOnSelect(question)) {
+      handleCheckAnswer()
+    }
+  }
+
+  // Practice mode: mark the current answer and reveal the explanation
+  const handleCheckAnswer = () => {
+    setLockedQuestions((prev) => {
+      const newLocked = [...prev]
+      newLocked[currentQuestionIndex] = true
+      return newLocked
+    })
+  }
+
+  // Practice mode: colour a marked option green if it is correct, red if it was a wrong pick
+  const practiceOptionClass = (question: Question, option: string) => {
+    if (isCorrectOption(question, option)) return 'text-green-700 dark:text-green-400 font-medium'
+    if (isOptionSelected(selectedAnswers[currentQuestionIndex], option)) return 'text-red-700 dark:text-red-400 line-through'
+    return ''
+  }
+
+  // Toggle an option for multiple-select questions
+  const handleToggleAnswer = (option: string) => {
+    const current = selectedAnswers[currentQuestionIndex]
+    const selected = Array.isArray(current) ? current : []
+    handleAnswer(
+      selected.includes(option)
+        ? selected.filter(selectedOption => selectedOption !== option)
+        : [...selected, option]
+    )
+  }
+
+  // Column B answers for the current matching question, shuffled once per question shown
+  const shuffledMatchChoices = useMemo(() => {
+    const question = currentQuiz?.questions[currentQuestionIndex]
+    return question && getQuestionType(question) === 'matching' ? shuffleArray(getMatchChoices(question)) : []
+  }, [currentQuiz, currentQuestionIndex])
+
+  // Questions the learner can move between - the current section, or the whole quiz without sections
+  const currentSection = sectionRanges[currentSectionIndex]
+  const firstQuestionInView = currentSection ? currentSection.start : 0
+  const lastQuestionInView = currentSection ? currentSection.end - 1 : (currentQuiz?.questions.length ?? 1) - 1
+  const hasNextSection = currentSectionIndex < sectionRanges.length - 1
+
+  // Seconds spent in the current section so far (the practice clock counts up, exam clocks count down)
+  const getSectionElapsed = () => quizMode === 'practice' ? timer - sectionStartTimer : sectionStartTimer - timer
+
+  // Close the current section and show the next one's instructions; earlier sections can't be reopened
+  const startNextSection = () => {
+    const elapsed = getSectionElapsed()
+    setSectionTimeSpent((prev) => prev.map((spent, i) => (i === currentSectionIndex ? spent + elapsed : spent)))
+
+    const next = currentSectionIndex + 1
+    const nextTimer = quizMode === 'practice' ? timer : sectionRanges[next].section.timer
+    setCurrentSectionIndex(next)
+    setCurrentQuestionIndex(sectionRanges[next].start)
+    setIsSectionIntro(true)
+    setIsSubmitSummaryOpen(false)
+    setTimer(nextTimer)
+    setSectionStartTimer(nextTimer)
   }
 
   // Function to navigate to the previous question
   const previousQuestion = () => {
-    if (currentQuestionIndex > 0) {
+    if (currentQuestionIndex > firstQuestionInView) {
       setCurrentQuestionIndex(currentQuestionIndex - 1)
     }
   }
   
-  // Function to navigate to the next question or finish the quiz
+  // Function to navigate to the next question; at the end of the section or quiz, review before submitting
   const nextQuestion = () => {
-    if (currentQuestionIndex < currentQuiz?.questions.length! - 1) {
+    if (currentQuestionIndex < lastQuestionInView) {
       setCurrentQuestionIndex(currentQuestionIndex + 1)
+    } else {
+      setIsSubmitSummaryOpen(true)
+    }
+  }
+
+  // Confirmed from the pre-submit summary: leave the section or finish the quiz
+  const submitQuestionsInView = () => {
+    setIsSubmitSummaryOpen(false)
+    if (hasNextSection) {
+      startNextSection()
     } else {
       finishQuiz()
     }
   }
 
+  // Palette navigation - only within the current section
+  const jumpToQuestion = (index: number) => {
+    if (index >= firstQuestionInView && index <= lastQuestionInView) {
+      setCurrentQuestionIndex(index)
+      setIsSubmitSummaryOpen(false)
+    }
+  }
+
+  const toggleMarkedForReview = () => {
+    setMarkedForReview((prev) => {
+      const newMarked = [...prev]
+      newMarked[currentQuestionIndex] = !newMarked[currentQuestionIndex]
+      return newMarked
+    })
+  }
+
+  // Remember which questions have been opened, for the palette
+  useEffect(() => {
+    if (!isQuizRunning || isSectionIntro) return
+    setVisitedQuestions((prev) => {
+      if (prev[currentQuestionIndex]) return prev
+      const newVisited = [...prev]
+      newVisited[currentQuestionIndex] = true
+      return newVisited
+    })
+  }, [isQuizRunning, isSectionIntro, currentQuestionIndex])
+
+  // What gets scored for each question: ordering questions start out with a (shuffled) answer,
+  // which only counts once the learner has changed it or checked it in practice mode
+  const getSubmittedAnswers = (questions: readonly Question[]) =>
+    questions.map((question, index) =>
+      getSubmittedAnswer(question, selectedAnswers[index], !!changedAnswers[index] || !!lockedQuestions[index])
+    )
+
+  const submittedAnswers = currentQuiz ? getSubmittedAnswers(currentQuiz.questions) : []
+
+  const isQuestionAnswered = (index: number) =>
+    !!currentQuiz && !!visitedQuestions[index] &&
+    isAnswered(submittedAnswers[index])
+
+  const getPaletteStatus = (index: number): PaletteStatus => {
+    if (markedForReview[index]) return 'marked'
+    if (isQuestionAnswered(index)) return 'answered'
+    return visitedQuestions[index] ? 'skipped' : 'unvisited'
+  }
+
+  // Pre-submit summary of the questions still reachable (the current section, or the whole quiz)
+  const questionsInView = currentQuiz
+    ? currentQuiz.questions.map((_, index) => index).slice(firstQuestionInView, lastQuestionInView + 1)
+    : []
+  const unansweredInView = questionsInView.filter((index) => !isQuestionAnswered(index))
+  const markedInView = questionsInView.filter((index) => markedForReview[index])
+
+  // Per-question clock: adds up the seconds spent on whichever question is shown, revisits included
+  useEffect(() => {
+    if (!isQuizRunning || isSectionIntro) return
+    const interval = setInterval(() => {
+      setQuestionTimes((prev) => {
+        const newTimes = [...prev]
+        newTimes[currentQuestionIndex] = (newTimes[currentQuestionIndex] || 0) + 1
+        return newTimes
+      })
+    }, 1000)
+    return () => clearInterval(interval)
+  }, [isQuizRunning, isSectionIntro, currentQuestionIndex])
+
+  // Move on when a question's time limit runs out - only at the moment it expires,
+  // so revisiting a timed-out question later just shows it read-only
+  useEffect(() => {
+    if (!isQuizRunning || currentTimeLimit === undefined) return
+    if (questionTimes[currentQuestionIndex] === currentTimeLimit && currentQuestionIndex < lastQuestionInView) {
+      setCurrentQuestionIndex(currentQuestionIndex + 1)
+    }
+  }, [questionTimes])
+
   const finishQuiz = () => {
     setIsQuizRunning(false)
+    setIsSubmitSummaryOpen(false)
+    clearSavedAttempt()
     setShowResults(true)
 
     if (currentQuiz) {
-      // Calculate the score first
-      const newScore = currentQuiz.questions.reduce((acc, question, index) => {
-        return acc + (selectedAnswers[index] === question.correctAnswer ? 1 : 0)
-      }, 0)
+      // Calculate the score first - multiple-select questions can earn partial credit,
+      // and the weighted score applies the quiz's marking scheme and question weights
+      const { credits, score: newScore, weightedScore: points, maxScore } = scoreAttempt(
+        currentQuiz.questions,
+        submittedAnswers,
+        currentQuiz.settings?.marking
+      )
 
       setScore(newScore)
+      setWeightedScore({ points, max: maxScore })
+
+      // Per-section breakdown, including the time spent in the section being closed
+      const elapsed = getSectionElapsed();
+      const sectionTimes = sectionTimeSpent.map((spent, i) => (i === currentSectionIndex ? spent + elapsed : spent));
+      const newSectionResults: SectionResult[] = sectionRanges.map((range, i) => {
+        const part = scoreAttempt(
+          currentQuiz.questions.slice(range.start, range.end),
+          submittedAnswers.slice(range.start, range.end),
+          currentQuiz.settings?.marking
+        );
+        return {
+          sectionId: range.section.id,
+          title: range.section.title,
+          score: part.score,
+          totalQuestions: range.end - range.start,
+          weightedScore: part.weightedScore,
+          maxScore: part.maxScore,
+          timeSpent: sectionTimes[i]
+        };
+      });
+      setSectionResults(newSectionResults);
 
       const now = new Date();
-      const timeSpent = currentQuiz.timer - timer;
+      const timeSpent = sectionRanges.length > 0
+        ? sectionTimes.reduce((sum, spent) => sum + spent, 0)
+        : quizMode === 'practice' ? timer : currentQuiz.timer - timer;
 
       // Create question results for history tracking
       const questionResults = currentQuiz.questions.map((question, index) => {
-        const userAnswer = selectedAnswers[index] || '';
+        const userAnswer = submittedAnswers[index] || '';
         return {
+          questionId: question.id,
           question: question.question,
-          userAnswer: userAnswer,
-          correctAnswer: question.correctAnswer,
-          isCorrect: userAnswer === question.correctAnswer
+          format: question.format,
+          options: usesOptions(question) ? question.options : undefined,
+          userAnswer: describeAnswer(question, userAnswer),
+          correctAnswer: describeAnswer(question, getExpectedAnswer(question, userAnswer)),
+          isCorrect: credits[index] === 1,
+          credit: credits[index],
+          timeSpent: questionTimes[index] || 0
         };
       });
 
@@ -849,17 +1397,25 @@ export default function QuizApp() {
         score: newScore,
         totalQuestions: currentQuiz.questions.length,
         timeSpent: timeSpent,
-        questionResults: questionResults
+        mode: quizMode,
+        weightedScore: points,
+        maxScore: maxScore,
+        questionOrder: questionOrder,
+        questionResults: questionResults,
+        ...(newSectionResults.length > 0 && { sectionResults: newSectionResults })
       };
 
       setQuizzes((prev) =>
         prev.map((quiz) =>
-          quiz.title === currentQuiz.title && quiz.description === currentQuiz.description
+          quiz.id === currentQuiz.id
             ? { 
                 ...quiz, 
-                lastTaken: now,
+                // Only exams start the retake cooldown
+                lastTaken: quizMode === 'exam' ? now : quiz.lastTaken,
                 // Add the new attempt to history array
-                history: [...(quiz.history || []), newAttempt]
+                history: [...(quiz.history || []), newAttempt],
+                // Wrong answers go into the review deck
+                review: addMissedQuestions(quiz.review || [], newAttempt, now)
               }
             : quiz
         )
@@ -876,15 +1432,29 @@ export default function QuizApp() {
     setScore(0)
     setTimer(0)
     setIsQuizRunning(false)
+    setQuizMode('exam')
+    setLockedQuestions([])
+    setQuestionOrder([])
+    setSectionRanges([])
+    setCurrentSectionIndex(0)
+    setIsSectionIntro(false)
+    setSectionTimeSpent([])
+    setSectionResults([])
+    setQuestionTimes([])
+    setVisitedQuestions([])
+    setChangedAnswers([])
+    setMarkedForReview([])
+    setIsSubmitSummaryOpen(false)
     setShowResults(false)
     setIsQuizModalOpen(false)
+    clearSavedAttempt()
   }
 
   const handleImportQuiz = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0]
     if (file) {
       const reader = new FileReader()
-      reader.onload = (e) => {
+      reader.onload = async (e) => {
         const content = e.target?.result
         if (typeof content === 'string') {
           try {
@@ -933,6 +1503,13 @@ export default function QuizApp() {
               }
             }
             
+            // Exports bundle the images once alongside the quizzes; older files have them inline
+            let importedImages: Record<string, string> = {};
+            if (isQuizBundle(importedQuizzes)) {
+              importedImages = importedQuizzes.images || {};
+              importedQuizzes = importedQuizzes.quizzes;
+            }
+            
             // Ensure the parsed data is an array
             if (!Array.isArray(importedQuizzes)) {
               if (typeof importedQuizzes === 'object' && importedQuizzes !== null) {
@@ -957,10 +1534,14 @@ export default function QuizApp() {
                 variant: "destructive",
               })
             } else {
-              // Make sure each quiz has an ID if importing from older format
+              // Make sure each quiz has an ID of its own (older formats have none)
+              const usedIds = new Set(quizzes.map(quiz => quiz.id))
+              // An imported quiz is a copy belonging to whoever imported it, not the account or server quiz it came from
               const validatedQuizzes = newQuizzes.map((quiz: Partial<Quiz>) => ({
                 ...quiz,
-                id: quiz.id || uuidv4(),
+                id: claimQuizId(quiz.id, usedIds),
+                createdBy: user?.id,
+                uniqueId: undefined,
                 createdAt: quiz.createdAt ? new Date(quiz.createdAt) : new Date(),
                 isPublic: quiz.isPublic !== undefined ? quiz.isPublic : false,
                 version: quiz.version || 1,
@@ -972,8 +1553,11 @@ export default function QuizApp() {
                   ? (quiz.category as QuizCategory) 
                   : "General Knowledge",
                 timer: quiz.timer || 300,
-                questions: Array.isArray(quiz.questions) ? quiz.questions : []
+                questions: ensureQuestionIds(Array.isArray(quiz.questions) ? quiz.questions : [])
               }))
+              for (const quiz of validatedQuizzes) {
+                quiz.questions = await internQuestionImages(quiz.questions, importedImages)
+              }
 
               // Log successful validation
               console.log(`Successfully validated ${validatedQuizzes.length} quizzes`);
@@ -999,7 +1583,7 @@ export default function QuizApp() {
     }
   }
 
-  const handleImportJson = () => {
+  const handleImportJson = async () => {
     try {
       // Trim whitespace and handle empty input
       const trimmedJson = importJson.trim();
@@ -1099,6 +1683,13 @@ export default function QuizApp() {
         }
       }
 
+      // Exports bundle the images once alongside the quizzes; older data has them inline
+      let importedImages: Record<string, string> = {};
+      if (isQuizBundle(importedQuizzes)) {
+        importedImages = importedQuizzes.images || {};
+        importedQuizzes = importedQuizzes.quizzes;
+      }
+
       // Ensure the parsed data is an array
       if (!Array.isArray(importedQuizzes)) {
         // If it's a single quiz object, wrap it in an array
@@ -1131,10 +1722,14 @@ export default function QuizApp() {
         return;
       }
 
-      // Validate and fix each quiz
+      // Validate and fix each quiz, giving it an ID of its own
+      const usedIds = new Set(quizzes.map(quiz => quiz.id));
+      // An imported quiz is a copy belonging to whoever imported it, not the account or server quiz it came from
       const validatedQuizzes = newQuizzes.map((quiz: Partial<Quiz>) => ({
         ...quiz,
-        id: quiz.id || uuidv4(),
+        id: claimQuizId(quiz.id, usedIds),
+        createdBy: user?.id,
+        uniqueId: undefined,
         createdAt: quiz.createdAt ? new Date(quiz.createdAt) : new Date(),
         isPublic: quiz.isPublic !== undefined ? quiz.isPublic : false,
         version: quiz.version || 1,
@@ -1147,8 +1742,11 @@ export default function QuizApp() {
           : "General Knowledge",
         password: quiz.password || undefined,
         timer: quiz.timer || 300,
-        questions: Array.isArray(quiz.questions) ? quiz.questions : []
+        questions: ensureQuestionIds(Array.isArray(quiz.questions) ? quiz.questions : [])
       }));
+      for (const quiz of validatedQuizzes) {
+        quiz.questions = await internQuestionImages(quiz.questions, importedImages);
+      }
 
       // Add the new quizzes to the existing ones
       setQuizzes((prev) => [...prev, ...validatedQuizzes]);
@@ -1229,11 +1827,8 @@ export default function QuizApp() {
         return
       }
 
-      // First optimize the quizzes to reduce size (compress images)
-      const optimizedQuizzes = optimizeImages(quizzesToShare)
-
-      // Then sanitize and prepare for sharing
-      const sanitizedQuizzes = JSON.parse(JSON.stringify(optimizedQuizzes))
+      // Sanitize and prepare for sharing - images were compressed once when they were stored
+      const sanitizedQuizzes = JSON.parse(JSON.stringify(quizzesToShare))
 
       // Handle the case where the share API supports files
       if (navigator.share && navigator.canShare) {
@@ -1256,8 +1851,8 @@ export default function QuizApp() {
             return simplifiedQuiz;
           });
 
-          // Create JSON and encode it to protect quiz content
-          const json = JSON.stringify(simplifiedQuizzes, null, 2)
+          // Create JSON with the images the quizzes use, and encode it to protect quiz content
+          const json = JSON.stringify(bundleQuizzes(simplifiedQuizzes), null, 2)
           const encodedData = encodeQuizData(json)
 
           // Create a blob from the encoded JSON data
@@ -1316,7 +1911,7 @@ export default function QuizApp() {
         // Fallback for browsers that don't support Web Share API
         try {
           // Create a download as fallback with encoded data
-          const json = JSON.stringify(sanitizedQuizzes, null, 2)
+          const json = JSON.stringify(bundleQuizzes(sanitizedQuizzes), null, 2)
           const encodedData = encodeQuizData(json)
           const blob = new Blob([encodedData], { type: 'application/octet-stream' })
           const url = URL.createObjectURL(blob)
@@ -1390,9 +1985,10 @@ export default function QuizApp() {
             title: quiz.title || 'Untitled Quiz',
             description: quiz.description || '',
             questions: (quiz.questions || []).map(q => ({
+              ...q, // Keep type-specific answer data (correct sets, numeric values, pairs...)
               question: q.question || '',
               answerDescription: q.answerDescription || '',
-              options: (q.options || []).slice(0, 4),
+              options: q.options || [],
               correctAnswer: q.correctAnswer || '',
               questionImages: (q.questionImages || []).slice(0, 1), // Limit to first image
               answerImages: (q.answerImages || []).slice(0, 1) // Limit to first image
@@ -1400,13 +1996,15 @@ export default function QuizApp() {
             timer: parseInt(String(quiz.timer)) || 60,
             category: quiz.category || 'General Knowledge',
             createdAt: quiz.createdAt || new Date(),
-            isPublic: !!quiz.isPublic
+            isPublic: !!quiz.isPublic,
+            settings: quiz.settings,
+            sections: quiz.sections
           }
         })
       }
       
-      // Use our safe stringify function to convert to JSON string
-      const json = safeStringify(sanitizedQuizzes, '[]')
+      // Use our safe stringify function to convert to JSON string, with each image the quizzes use included once
+      const json = safeStringify(bundleQuizzes(sanitizedQuizzes), '[]')
 
       // Encode the JSON to protect quiz answers and content with our enhanced encoding
       const encodedData = encodeQuizData(json)
@@ -1531,33 +2129,68 @@ export default function QuizApp() {
     }
   }
 
-  const handleSaveQuiz = async () => {
-    if (newQuiz.title.trim() === '' || newQuiz.timer <= 0) {
+  // Validate the editor questions (and sections) for saving or updating a quiz
+  // Completely blank questions are skipped; a partly filled one stops the save with the reason
+  const validateQuestions = (): Question[] | null => {
+    const untitledSection = (newQuiz.sections || []).findIndex(section => section.title.trim() === '')
+    if (untitledSection !== -1) {
       toast({
         title: "Validation Error",
-        description: "Please fill in the title and ensure the timer is set.",
+        description: `Section ${untitledSection + 1}: please enter a title.`,
         variant: "destructive",
       })
-      return
+      return null
     }
-    const questions = newQuestions.filter(
-      (q) => q.question.trim() !== '' && q.options.every(opt => opt.trim() !== '') && q.correctAnswer.trim() !== ''
-    )
-    if (questions.length === 0) {
+
+    const filledQuestions = newQuestions
+      .map((question, index) => ({ question, index }))
+      .filter(({ question }) => !isQuestionBlank(question))
+
+    for (const { question, index } of filledQuestions) {
+      const issue = getQuestionIssue(question)
+      if (issue) {
+        toast({
+          title: "Validation Error",
+          description: `Question ${index + 1}: please ${issue}.`,
+          variant: "destructive",
+        })
+        return null
+      }
+    }
+
+    if (filledQuestions.length === 0) {
+      toast({
+        title: "Validation Error",
+        description: "Please add at least one question.",
+        variant: "destructive",
+      })
+      return null
+    }
+
+    return ensureQuestionIds(filledQuestions.map(({ question }) => finalizeQuestion(question)))
+  }
+
+  const handleSaveQuiz = async () => {
+    if (newQuiz.title.trim() === '' || newQuiz.timer <= 0) {
       toast({
         title: "Validation Error",
-        description: "Please ensure all questions are filled correctly.",
+        description: "Please fill in the title and ensure the timer is set.",
         variant: "destructive",
       })
       return
     }
+    const questions = validateQuestions()
+    if (!questions) return
 
     // Generate a unique ID for the quiz if it doesn't have one
     const quizWithId = {
       ...newQuiz,
       questions,
       id: newQuiz.id || uuidv4(),
-      version: newQuiz.version || 1
+      version: newQuiz.version || 1,
+      createdBy: user?.id,
+      // An account's quizzes are guarded by its roles instead
+      password: user ? undefined : newQuiz.password
     }
 
     try {
@@ -1589,16 +2222,7 @@ export default function QuizApp() {
       history: [],
       version: 1
     })
-    setNewQuestions([
-      {
-        question: '',
-        answerDescription: '',
-        options: ['', '', '', ''],
-        correctAnswer: '',
-        questionImages: [],
-        answerImages: [],
-      },
-    ])
+    setNewQuestions([createEmptyQuestion()])
     toast({
       title: "Success",
       description: "Quiz saved successfully!",
@@ -1636,12 +2260,14 @@ export default function QuizApp() {
       
       // Use our optimized converter
       const base64Image = await convertFileToBase64(file);
+      // Stored once by content, so the question only keeps a reference
+      const imageRef = await storeImage(base64Image);
       
       // Update state with the new image
       setNewQuestions((prev) =>
         prev.map((q, i) => (i === index ? { 
           ...q, 
-          questionImages: [...q.questionImages, base64Image] 
+          questionImages: [...q.questionImages, imageRef] 
         } : q))
       );
       
@@ -1682,12 +2308,14 @@ export default function QuizApp() {
       
       // Use our optimized converter
       const base64Image = await convertFileToBase64(file);
+      // Stored once by content, so the question only keeps a reference
+      const imageRef = await storeImage(base64Image);
       
       // Update state with the new image
       setNewQuestions((prev) =>
         prev.map((q, i) => (i === index ? { 
           ...q, 
-          answerImages: [...q.answerImages, base64Image] 
+          answerImages: [...q.answerImages, imageRef] 
         } : q))
       );
       
@@ -1709,84 +2337,162 @@ export default function QuizApp() {
     }
   }, [convertFileToBase64, toast]);
 
+  // Uploads this device's account quizzes and the attempts made on them, and brings down what changed on the
+  // server, including quizzes shared with the account; quizzes made without logging in stay on the device
+  const handleSyncWithAccount = async () => {
+    if (!user) return
+    setIsSyncing(true)
+    try {
+      const synced = quizzes
+      const quizRoles = await refreshQuizRoles()
+      const { updated, added, summary } = await syncAccountQuizzes(synced, user, quizRoles, quiz => quiz)
+
+      // A quiz changed here while the sync ran keeps that change, for the next sync to upload
+      setQuizzes((prev) => [...prev.map(quiz => synced.includes(quiz) ? updated.get(quiz.id) ?? quiz : quiz), ...added])
+
+      const notes = [
+        `${summary.uploaded} uploaded, ${summary.downloaded} downloaded.`,
+        summary.conflicts > 0 && `${summary.conflicts} changed on the server too, so your changes were kept as a copy.`,
+        summary.rejectedAttempts > 0 && `${summary.rejectedAttempts} attempts weren't recorded because of their quiz's retake policy.`,
+        summary.failed > 0 && `${summary.failed} couldn't be synced; try again later.`
+      ].filter(Boolean)
+      toast({
+        title: "Synced With Account",
+        description: notes.join(" "),
+        variant: summary.failed > 0 ? "destructive" : "default",
+      })
+    } catch (error) {
+      console.error("Failed to sync quizzes:", error)
+      toast({
+        title: "Sync Failed",
+        description: "Your quizzes couldn't be synced with your account. Check your connection and try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSyncing(false)
+    }
+  }
+
   // Add state for delete quiz operation
   const [quizToDelete, setQuizToDelete] = useState<number | null>(null)
-  const [deletePasswordDialogOpen, setDeletePasswordDialogOpen] = useState(false)
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false)
 
+  // Only a quiz's owners (its creator and admins) can delete it
   const handleDeleteQuiz = (index: number) => {
-    // Set the quiz to delete and open password dialog
+    if (!canManageQuiz(roleFor(quizzes[index]))) {
+      toast({
+        title: "Access Denied",
+        description: "Only the quiz's owners can delete it.",
+        variant: "destructive",
+      })
+      return
+    }
     setQuizToDelete(index)
-    setPasswordInput("")
-    setDeletePasswordDialogOpen(true)
+    setDeleteDialogOpen(true)
   }
 
-  const handleDeleteQuizConfirm = () => {
-    // Only proceed if quizToDelete is not null and password is correct
+  const handleDeleteQuizConfirm = async () => {
     if (quizToDelete === null) return;
 
-    if (passwordInput === MASTER_PASSWORD) {
-      // Password matches, delete the quiz
-      setQuizzes((prev) => prev.filter((_, i) => i !== quizToDelete))
-      toast({
-        title: "Quiz Deleted",
-        description: "The quiz has been deleted successfully.",
-        variant: "default",
-      })
+    // A quiz the server has goes from there too, or the next sync would bring it back
+    const quiz = quizzes[quizToDelete]
+    if (quiz.uniqueId) {
+      try {
+        await deleteServerQuiz(quiz.uniqueId)
+      } catch (error) {
+        console.error("Failed to delete quiz from the server:", error)
+        toast({
+          title: "Delete Failed",
+          description: "The quiz couldn't be deleted from your account. Check your connection and try again.",
+          variant: "destructive",
+        })
+        return
+      }
+    }
+
+    setQuizzes((prev) => prev.filter((q) => q.id !== quiz.id))
+    toast({
+      title: "Quiz Deleted",
+      description: "The quiz has been deleted successfully.",
+      variant: "default",
+    })
+
+    // Close dialog and reset state
+    setDeleteDialogOpen(false)
+    setQuizToDelete(null)
+  }
+
+  // Loads a quiz into the editor
+  const openQuizEditor = (index: number) => {
+    const quiz = quizzes[index];
+    setQuizToEdit(index);
+
+    setNewQuiz({
+      id: quiz.id,
+      title: quiz.title,
+      description: quiz.description,
+      timer: quiz.timer,
+      password: quiz.password,
+      questions: [],
+      category: quiz.category || 'General Knowledge',
+      createdAt: quiz.createdAt || new Date(),
+      isPublic: quiz.isPublic || false,
+      history: quiz.history || [],
+      settings: quiz.settings,
+      sections: quiz.sections,
+      version: quiz.version || 1
+    });
+
+    setNewQuestions(quiz.questions.map(q => ({...q})));
+    setIsEditMode(true);
+    setActiveTab("create");
+
+    toast({
+      title: "Edit Mode",
+      description: "Now editing quiz: " + quiz.title,
+    });
+  }
 
-      // Close dialog and reset state
-      setDeletePasswordDialogOpen(false)
-      setPasswordInput("")
-      setQuizToDelete(null)
+  // An account's quizzes open for their owners and editors only. Quizzes made without logging in belong to
+  // the device, and ask for their password first if they have one
+  // `questionIndex` opens the editor on a particular question, e.g. from item analysis
+  const handleEditQuiz = (index: number, questionIndex: number | null = null) => {
+    const quiz = quizzes[index];
+    setEditFocusQuestion(questionIndex);
+
+    if (isDeviceQuiz(quiz) && quiz.password) {
+      setQuizToEdit(index);
+      setPasswordInput("");
+      setPasswordDialogOpen(true);
+    } else if (canEditQuiz(roleFor(quiz))) {
+      openQuizEditor(index);
     } else {
-      // Password doesn't match
       toast({
         title: "Access Denied",
-        description: "Incorrect password. Quiz deletion prevented.",
+        description: "Only the quiz's owners and editors can edit it.",
         variant: "destructive",
-      })
+      });
     }
   }
 
-  const handleEditQuiz = (index: number) => {
-    setQuizToEdit(index);
-    setPasswordDialogOpen(true);
-  }
+  // Bring the requested question into view once the editor has rendered it
+  useEffect(() => {
+    if (!isEditMode || activeTab !== "create" || editFocusQuestion === null) return;
+    const timeout = setTimeout(() => {
+      document.getElementById(`editor-question-${editFocusQuestion}`)?.scrollIntoView({ behavior: "smooth", block: "start" });
+      setEditFocusQuestion(null);
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [isEditMode, activeTab, editFocusQuestion])
 
   const handlePasswordSubmit = () => {
     if (quizToEdit === null) return;
 
     const quiz = quizzes[quizToEdit];
-    const userPassword = passwordInput;
-
-    // Check if the password matches the user-defined password or the master password
-    if ((quiz.password && userPassword === quiz.password) || userPassword === MASTER_PASSWORD) {
-      // Password is correct, proceed to edit
+    if (isDeviceQuiz(quiz) && quiz.password && passwordInput === quiz.password) {
       setPasswordDialogOpen(false);
       setPasswordInput("");
-
-      // Load the quiz data into edit mode
-      setNewQuiz({
-        id: quiz.id,
-        title: quiz.title,
-        description: quiz.description,
-        timer: quiz.timer,
-        password: quiz.password,
-        questions: [],
-        category: quiz.category || 'General Knowledge',
-        createdAt: quiz.createdAt || new Date(),
-        isPublic: quiz.isPublic || false,
-        history: quiz.history || [],
-        version: quiz.version || 1
-      });
-
-      setNewQuestions(quiz.questions.map(q => ({...q})));
-      setIsEditMode(true);
-      setActiveTab("create");
-
-      toast({
-        title: "Edit Mode",
-        description: "Now editing quiz: " + quiz.title,
-      });
+      openQuizEditor(quizToEdit);
     } else {
       // Incorrect password
       toast({
@@ -1809,22 +2515,12 @@ export default function QuizApp() {
       return;
     }
 
-    const questions = newQuestions.filter(
-      (q) => q.question.trim() !== '' && q.options.every(opt => opt.trim() !== '') && q.correctAnswer.trim() !== ''
-    );
-
-    if (questions.length === 0) {
-      toast({
-        title: "Validation Error",
-        description: "Please ensure all questions are filled correctly.",
-        variant: "destructive",
-      });
-      return;
-    }
+    const questions = validateQuestions();
+    if (!questions) return;
 
-    // Update the quiz
+    // Update the quiz, keeping what the editor doesn't load (review cards, last taken)
     setQuizzes(prev => 
-      prev.map((q, i) => i === quizToEdit ? { ...newQuiz, questions } : q)
+      prev.map((q, i) => i === quizToEdit ? { ...q, ...newQuiz, questions, unsyncedChanges: true } : q)
     );
 
     // Reset form
@@ -1841,16 +2537,7 @@ export default function QuizApp() {
       version: 1
     });
 
-    setNewQuestions([
-      {
-        question: '',
-        answerDescription: '',
-        options: ['', '', '', ''],
-        correctAnswer: '',
-        questionImages: [],
-        answerImages: [],
-      },
-    ]);
+    setNewQuestions([createEmptyQuestion()]);
 
     setIsEditMode(false);
     setQuizToEdit(null);
@@ -1912,8 +2599,8 @@ export default function QuizApp() {
     // Get the selected quizzes
     const selectedQuizData = quizzesToMerge.map(index => quizzes[index])
     
-    // Combine all questions from the selected quizzes
-    const allQuestions = selectedQuizData.flatMap(quiz => quiz.questions)
+    // Combine all questions from the selected quizzes; they keep their ids unless a question appears twice
+    const allQuestions = ensureQuestionIds(selectedQuizData.flatMap(quiz => quiz.questions))
     
     // Calculate average timer from all quizzes, with a minimum of 60 seconds
     const avgTimer = Math.max(
@@ -1931,6 +2618,7 @@ export default function QuizApp() {
       questions: allQuestions,
       timer: avgTimer,
       category: mergedQuizCategory,
+      createdBy: user?.id,
       createdAt: new Date(),
       isPublic: false,
       history: [],
@@ -1999,7 +2687,22 @@ export default function QuizApp() {
           <span className="mr-2">📝</span> BMV Quiz
         </motion.h1>
 
-        <ThemeToggle />
+        <div className="flex items-center gap-3">
+          {status === "authenticated" && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleSyncWithAccount}
+              disabled={isSyncing || !quizzesLoaded}
+              title="Upload your quizzes and attempts to your account, and download quizzes shared with it"
+            >
+              <Cloud className="h-4 w-4 mr-2" />
+              {isSyncing ? "Syncing..." : "Sync"}
+            </Button>
+          )}
+          <AccountMenu />
+          <ThemeToggle />
+        </div>
       </div>
 
       <Tabs 
@@ -2007,7 +2710,7 @@ export default function QuizApp() {
         onValueChange={setActiveTab}
         className="mb-8"
       >
-        <TabsList className="grid w-full grid-cols-4">
+        <TabsList className="grid w-full grid-cols-5">
           <TabsTrigger value="create" className="flex items-center justify-center">
             <Plus className="h-5 w-5 mr-2" />
             Create Quiz
@@ -2020,6 +2723,13 @@ export default function QuizApp() {
             <Clock className="h-5 w-5 mr-2" />
             History
           </TabsTrigger>
+          <TabsTrigger value="review" className="flex items-center justify-center">
+            <RefreshCw className="h-5 w-5 mr-2" />
+            Review
+            {dueReviews.length > 0 && (
+              <Badge variant="secondary" className="ml-2 px-1.5">{dueReviews.length}</Badge>
+            )}
+          </TabsTrigger>
           <TabsTrigger value="import-export" className="flex items-center justify-center">
             <Download className="h-5 w-5 mr-2" />
             Import/Export
@@ -2070,19 +2780,21 @@ export default function QuizApp() {
                         onChange={(e) => setNewQuiz({ ...newQuiz, timer: parseInt(e.target.value) })}
                       />
                     </div>
-                    <div>
-                      <Label htmlFor="quiz-password">Password (optional)</Label>
-                      <Input
-                        id="quiz-password"
-                        type="password"
-                        placeholder="Set password for editing"
-                        value={newQuiz.password || ''}
-                        onChange={(e) => setNewQuiz({ ...newQuiz, password: e.target.value })}
-                      />
-                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-                        Set a password to protect this quiz from unauthorized edits
-                      </p>
-                    </div>
+                    {(isEditMode && quizToEdit !== null ? isDeviceQuiz(quizzes[quizToEdit]) : !user) && (
+                      <div>
+                        <Label htmlFor="quiz-password">Password (optional)</Label>
+                        <Input
+                          id="quiz-password"
+                          type="password"
+                          placeholder="Set password for editing"
+                          value={newQuiz.password || ''}
+                          onChange={(e) => setNewQuiz({ ...newQuiz, password: e.target.value })}
+                        />
+                        <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                          Set a password to protect this quiz from unauthorized edits
+                        </p>
+                      </div>
+                    )}
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                       <div className="space-y-4">
                         <div>
@@ -2142,88 +2854,424 @@ export default function QuizApp() {
                         )}
                       </div>
 
-                    </div>
-                    <div>
-                      <div className="flex items-center space-x-2">
-                        <Checkbox 
-                          id="quiz-public" 
-                          checked={newQuiz.isPublic}
-                          onCheckedChange={(checked) => 
-                            setNewQuiz({ ...newQuiz, isPublic: checked as boolean })
-                          }
-                        />
-                        <Label htmlFor="quiz-public">Make quiz shareable</Label>
+                    </div>
+                    <div>
+                      <div className="flex items-center space-x-2">
+                        <Checkbox 
+                          id="quiz-public" 
+                          checked={newQuiz.isPublic}
+                          onCheckedChange={(checked) => 
+                            setNewQuiz({ ...newQuiz, isPublic: checked as boolean })
+                          }
+                        />
+                        <Label htmlFor="quiz-public">Make quiz shareable</Label>
+                      </div>
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1 ml-6">
+                        Allow others to find and take this quiz
+                      </p>
+                    </div>
+                    <QuizSettingsForm
+                      settings={newQuiz.settings || {}}
+                      onChange={(settings) => setNewQuiz({ ...newQuiz, settings })}
+                      questionCount={newQuestions.length}
+                    />
+                    <SectionsEditor
+                      sections={newQuiz.sections || []}
+                      onChange={(sections) => setNewQuiz({ ...newQuiz, sections: sections.length > 0 ? sections : undefined })}
+                    />
+                  </div>
+                </CardContent>
+              </Card>
+            </motion.div>
+
+            {newQuestions.map((question, index) => (
+              <motion.div key={index} id={`editor-question-${index}`} variants={itemVariants} className="scroll-mt-4">
+                <Card>
+                  <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                    <CardTitle>Question {index + 1}</CardTitle>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDeleteQuestion(index)}
+                      className="text-red-500 hover:text-red-700"
+                    >
+                      <Trash className="h-5 w-5" />
+                    </Button>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div>
+                      <div className="flex items-center justify-between mb-1">
+                        <Label htmlFor={`question-text-${index}`}>Question</Label>
+                        <div className="flex items-center space-x-2">
+                          <Switch
+                            id={`question-markdown-${index}`}
+                            checked={question.format === 'markdown'}
+                            onCheckedChange={(checked) => handleQuestionChange(index, 'format', checked ? 'markdown' : 'plain')}
+                          />
+                          <Label htmlFor={`question-markdown-${index}`} className="text-sm font-normal">Markdown</Label>
+                        </div>
+                      </div>
+                      <RichTextField
+                        id={`question-text-${index}`}
+                        value={question.question}
+                        onChange={(value) => handleQuestionChange(index, 'question', value)}
+                        placeholder={question.format === 'markdown'
+                          ? "Enter your question (supports **bold**, lists, `code`, tables and $math$)"
+                          : "Enter your question"}
+                        markdown={question.format === 'markdown'}
+                      />
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                      <div>
+                        <Label htmlFor={`question-type-${index}`}>Question Type</Label>
+                        <Select
+                          value={getQuestionType(question)}
+                          onValueChange={(value) => handleQuestionTypeChange(index, value as QuestionType)}
+                        >
+                          <SelectTrigger id={`question-type-${index}`}>
+                            <SelectValue placeholder="Select a question type" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="single">Single answer</SelectItem>
+                            <SelectItem value="multiple">Select all that apply</SelectItem>
+                            <SelectItem value="numeric">Numeric answer</SelectItem>
+                            <SelectItem value="text">Typed answer (fill in the blank)</SelectItem>
+                            <SelectItem value="ordering">Arrange in order</SelectItem>
+                            <SelectItem value="matching">Match the pairs</SelectItem>
+                            <SelectItem value="boolean">True / False</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      {getQuestionType(question) === 'multiple' && (
+                        <div>
+                          <Label htmlFor={`partial-credit-${index}`}>Partial Credit</Label>
+                          <Select
+                            value={question.partialCredit || 'all-or-nothing'}
+                            onValueChange={(value) => handleQuestionChange(index, 'partialCredit', value)}
+                          >
+                            <SelectTrigger id={`partial-credit-${index}`}>
+                              <SelectValue placeholder="Select a scoring rule" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="all-or-nothing">All or nothing</SelectItem>
+                              <SelectItem value="proportional">Proportional</SelectItem>
+                              <SelectItem value="right-minus-wrong">Right minus wrong</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      )}
+                      <div>
+                        <Label htmlFor={`question-points-${index}`}>Weight</Label>
+                        <Input
+                          id={`question-points-${index}`}
+                          type="number"
+                          min="0.5"
+                          step="0.5"
+                          placeholder="1"
+                          value={question.points ?? ''}
+                          onChange={(e) => handlePointsChange(index, e.target.value)}
+                        />
+                        <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                          Multiplies the marks for this question
+                        </p>
+                      </div>
+                      <div>
+                        <Label htmlFor={`question-time-limit-${index}`}>Time Limit (seconds)</Label>
+                        <Input
+                          id={`question-time-limit-${index}`}
+                          type="number"
+                          min="5"
+                          step="5"
+                          placeholder={newQuiz.settings?.questionTimeLimit ? String(newQuiz.settings.questionTimeLimit) : 'No limit'}
+                          value={question.timeLimit ?? ''}
+                          onChange={(e) => handleTimeLimitChange(index, e.target.value)}
+                        />
+                      </div>
+                      {(newQuiz.sections || []).length > 0 && (
+                        <div>
+                          <Label htmlFor={`question-section-${index}`}>Section</Label>
+                          <Select
+                            value={(newQuiz.sections || []).some(section => section.id === question.sectionId)
+                              ? question.sectionId
+                              : newQuiz.sections![0].id}
+                            onValueChange={(value) => handleQuestionChange(index, 'sectionId', value)}
+                          >
+                            <SelectTrigger id={`question-section-${index}`}>
+                              <SelectValue placeholder="Select a section" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {(newQuiz.sections || []).map((section, sectionIdx) => (
+                                <SelectItem key={section.id} value={section.id}>
+                                  {section.title || `Section ${sectionIdx + 1}`}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      )}
+                    </div>
+
+                    {getQuestionType(question) === 'numeric' && (
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div>
+                          <Label htmlFor={`numeric-value-${index}`}>Correct Value</Label>
+                          <Input
+                            id={`numeric-value-${index}`}
+                            type="number"
+                            step="any"
+                            value={Number.isFinite(question.numericAnswer?.value) ? question.numericAnswer?.value : ''}
+                            onChange={(e) => handleNumericAnswerChange(index, 'value', e.target.value)}
+                            placeholder="e.g. 9.81"
+                          />
+                        </div>
+                        <div>
+                          <Label htmlFor={`numeric-units-${index}`}>Accepted Units (optional)</Label>
+                          <Input
+                            id={`numeric-units-${index}`}
+                            value={(question.numericAnswer?.units || []).join(', ')}
+                            onChange={(e) => handleNumericAnswerChange(index, 'units', e.target.value)}
+                            placeholder="e.g. m/s², m/s^2"
+                          />
+                        </div>
+                        <div>
+                          <Label htmlFor={`numeric-tolerance-${index}`}>Tolerance</Label>
+                          <Input
+                            id={`numeric-tolerance-${index}`}
+                            type="number"
+                            min="0"
+                            step="any"
+                            value={question.numericAnswer?.tolerance ?? 0}
+                            onChange={(e) => handleNumericAnswerChange(index, 'tolerance', e.target.value)}
+                          />
+                        </div>
+                        <div>
+                          <Label htmlFor={`numeric-tolerance-type-${index}`}>Tolerance Type</Label>
+                          <Select
+                            value={question.numericAnswer?.toleranceType || 'absolute'}
+                            onValueChange={(value) => handleNumericAnswerChange(index, 'toleranceType', value)}
+                          >
+                            <SelectTrigger id={`numeric-tolerance-type-${index}`}>
+                              <SelectValue placeholder="Select a tolerance type" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="absolute">Absolute (± value)</SelectItem>
+                              <SelectItem value="relative">Relative (± percent)</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <p className="text-sm text-gray-500 dark:text-gray-400 md:col-span-2">
+                          Learners type a number. Units are optional for them, but any unit they type must be in the accepted list.
+                        </p>
+                      </div>
+                    )}
+
+                    {getQuestionType(question) === 'text' && (
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div>
+                          <Label htmlFor={`accepted-answers-${index}`}>Accepted Answers</Label>
+                          <Textarea
+                            id={`accepted-answers-${index}`}
+                            value={(question.acceptedAnswers || []).join('\n')}
+                            onChange={(e) => handleAcceptedAnswersChange(index, 'acceptedAnswers', e.target.value)}
+                            placeholder={"One answer per line, e.g.\nNew Delhi\nनई दिल्ली"}
+                            rows={3}
+                          />
+                        </div>
+                        <div>
+                          <Label htmlFor={`accepted-patterns-${index}`}>Accepted Patterns (optional)</Label>
+                          <Textarea
+                            id={`accepted-patterns-${index}`}
+                            value={(question.acceptedPatterns || []).join('\n')}
+                            onChange={(e) => handleAcceptedAnswersChange(index, 'acceptedPatterns', e.target.value)}
+                            placeholder={"One regular expression per line, e.g.\n(new )?delhi"}
+                            rows={3}
+                            className="font-mono text-sm"
+                          />
+                          {(question.acceptedPatterns || []).map((pattern) => pattern.trim()).filter((pattern) => pattern !== '').map((pattern, patternIdx) => {
+                            const patternError = getAnswerPatternError(pattern)
+                            return patternError && (
+                              <p key={patternIdx} className="text-sm text-red-600 dark:text-red-400 mt-1">
+                                <code>{pattern}</code>: {patternError}
+                              </p>
+                            )
+                          })}
+                        </div>
+                        <p className="text-sm text-gray-500 dark:text-gray-400 md:col-span-2">
+                          Answers are matched ignoring case, extra spaces, punctuation and accents. Patterns must match the whole answer.
+                        </p>
+                      </div>
+                    )}
+
+                    {getQuestionType(question) === 'ordering' && (
+                      <div>
+                        <Label className="mb-2">Items (in the correct order)</Label>
+                        <div className="space-y-2">
+                          {question.options.map((item, optIdx) => (
+                            <div key={optIdx} className="flex items-center space-x-3">
+                              <span className="text-sm font-medium text-gray-500 w-6">{optIdx + 1}.</span>
+                              <Input
+                                value={item}
+                                onChange={(e) => handleOptionChange(index, optIdx, e.target.value)}
+                                placeholder={`Item ${optIdx + 1}`}
+                                className="flex-1"
+                              />
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleRemoveOption(index, optIdx)}
+                                disabled={question.options.length <= 2}
+                                className="text-red-500 hover:text-red-700"
+                                title="Remove item"
+                              >
+                                <Minus className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          ))}
+                        </div>
+                        <MathPreview text={question.options.join('\n')} />
+                        <Button variant="outline" size="sm" className="mt-2" onClick={() => handleAddOption(index)}>
+                          <Plus className="h-4 w-4 mr-1" />
+                          Add Item
+                        </Button>
+                        <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                          Enter the items in the correct order. Learners will see them shuffled.
+                        </p>
                       </div>
-                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1 ml-6">
-                        Allow others to find and take this quiz
-                      </p>
-                    </div>
-                  </div>
-                </CardContent>
-              </Card>
-            </motion.div>
+                    )}
 
-            {newQuestions.map((question, index) => (
-              <motion.div key={index} variants={itemVariants}>
-                <Card>
-                  <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                    <CardTitle>Question {index + 1}</CardTitle>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => handleDeleteQuestion(index)}
-                      className="text-red-500 hover:text-red-700"
-                    >
-                      <Trash className="h-5 w-5" />
-                    </Button>
-                  </CardHeader>
-                  <CardContent className="space-y-4">
-                    <div>
-                      <Label htmlFor={`question-text-${index}`}>Question</Label>
-                      <Textarea
-                        id={`question-text-${index}`}
-                        value={question.question}
-                        onChange={(e) => handleQuestionChange(index, 'question', e.target.value)}
-                        placeholder="Enter your question"
-                        rows={2}
-                      />
-                    </div>
+                    {getQuestionType(question) === 'matching' && (
+                      <div>
+                        <Label className="mb-2">Pairs</Label>
+                        <div className="space-y-2">
+                          {(question.pairs || []).map((pair, pairIdx) => (
+                            <div key={pairIdx} className="flex items-center space-x-3">
+                              <Input
+                                value={pair.left}
+                                onChange={(e) => handlePairChange(index, pairIdx, 'left', e.target.value)}
+                                placeholder={`Column A item ${pairIdx + 1}`}
+                                className="flex-1"
+                              />
+                              <ArrowRight className="h-4 w-4 text-gray-400 shrink-0" />
+                              <Input
+                                value={pair.right}
+                                onChange={(e) => handlePairChange(index, pairIdx, 'right', e.target.value)}
+                                placeholder={`Column B match ${pairIdx + 1}`}
+                                className="flex-1"
+                              />
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleRemovePair(index, pairIdx)}
+                                disabled={(question.pairs || []).length <= 2}
+                                className="text-red-500 hover:text-red-700"
+                                title="Remove pair"
+                              >
+                                <Minus className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          ))}
+                        </div>
+                        <MathPreview text={(question.pairs || []).map((pair) => `${pair.left} → ${pair.right}`).join('\n')} />
+                        <Button variant="outline" size="sm" className="mt-2" onClick={() => handleAddPair(index)}>
+                          <Plus className="h-4 w-4 mr-1" />
+                          Add Pair
+                        </Button>
+                        <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                          Learners match each Column A item to its Column B answer, which they see shuffled.
+                        </p>
+                      </div>
+                    )}
+
+                    {getQuestionType(question) === 'boolean' && (
+                      <div>
+                        <Label className="mb-2">Correct Answer</Label>
+                        <RadioGroup
+                          value={question.correctAnswer}
+                          onValueChange={(value) => handleCorrectAnswerChange(index, value)}
+                          className="flex space-x-6"
+                        >
+                          {BOOLEAN_OPTIONS.map((option) => (
+                            <div key={option} className="flex items-center space-x-2">
+                              <RadioGroupItem value={option} id={`boolean-${index}-${option}`} />
+                              <Label htmlFor={`boolean-${index}-${option}`}>{option}</Label>
+                            </div>
+                          ))}
+                        </RadioGroup>
+                      </div>
+                    )}
 
+                    {usesOptions(question) && getQuestionType(question) !== 'boolean' && (
                     <div>
                       <Label className="mb-2">Options</Label>
                       <div className="space-y-2">
                         {question.options.map((option, optIdx) => (
                           <div key={optIdx} className="flex items-center space-x-3">
-                            <RadioGroup
-                              value={question.correctAnswer === option ? option : ""}
-                              onValueChange={(value) => handleCorrectAnswerChange(index, value)}
-                            >
-                              <RadioGroupItem
-                                value={option || `empty-${optIdx}`}
+                            {getQuestionType(question) === 'multiple' ? (
+                              <Checkbox
                                 id={`option-${index}-${optIdx}`}
-                                className="h-4 w-4"
+                                checked={option !== '' && (question.correctAnswers || []).includes(option)}
+                                disabled={option === ''}
+                                onCheckedChange={() => handleCorrectAnswerToggle(index, option)}
                               />
-                            </RadioGroup>
+                            ) : (
+                              <RadioGroup
+                                value={question.correctAnswer === option ? option : ""}
+                                onValueChange={(value) => handleCorrectAnswerChange(index, value)}
+                              >
+                                <RadioGroupItem
+                                  value={option || `empty-${optIdx}`}
+                                  id={`option-${index}-${optIdx}`}
+                                  className="h-4 w-4"
+                                />
+                              </RadioGroup>
+                            )}
                             <Input
                               value={option}
                               onChange={(e) => handleOptionChange(index, optIdx, e.target.value)}
                               placeholder={`Option ${optIdx + 1}`}
                               className="flex-1"
                             />
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleRemoveOption(index, optIdx)}
+                              disabled={question.options.length <= MIN_OPTIONS}
+                              className="text-red-500 hover:text-red-700"
+                              title="Remove option"
+                            >
+                              <Minus className="h-4 w-4" />
+                            </Button>
                           </div>
                         ))}
                       </div>
-                      <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">Select the radio button next to the correct answer</p>
+                      <MathPreview text={question.options.join('\n')} />
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="mt-2"
+                        onClick={() => handleAddOption(index)}
+                        disabled={question.options.length >= MAX_OPTIONS}
+                      >
+                        <Plus className="h-4 w-4 mr-1" />
+                        Add Option
+                      </Button>
+                      <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                        {getQuestionType(question) === 'multiple'
+                          ? 'Tick every correct answer'
+                          : 'Select the radio button next to the correct answer'}
+                      </p>
                     </div>
+                    )}
 
                     <div>
                       <Label htmlFor={`answer-description-${index}`}>Answer Description</Label>
-                      <Textarea
+                      <RichTextField
                         id={`answer-description-${index}`}
                         value={question.answerDescription}
-                        onChange={(e) => handleQuestionChange(index, 'answerDescription', e.target.value)}
+                        onChange={(value) => handleQuestionChange(index, 'answerDescription', value)}
                         placeholder="Explanation for the correct answer"
-                        rows={2}
+                        markdown={question.format === 'markdown'}
                       />
                     </div>
 
@@ -2260,7 +3308,7 @@ export default function QuizApp() {
                           {question.questionImages.map((img, imgIdx) => (
                             <div key={imgIdx} className="relative w-16 h-16">
                               <img
-                                src={img}
+                                src={resolveImageSrc(img)}
                                 alt={`Question ${index + 1} image ${imgIdx + 1}`}
                                 className="w-full h-full object-cover rounded"
                               />
@@ -2320,7 +3368,7 @@ export default function QuizApp() {
                           {question.answerImages.map((img, imgIdx) => (
                             <div key={imgIdx} className="relative w-16 h-16">
                               <img
-                                src={img}
+                                src={resolveImageSrc(img)}
                                 alt={`Answer ${index + 1} image ${imgIdx + 1}`}
                                 className="w-full h-full object-cover rounded"
                               />
@@ -2430,24 +3478,28 @@ export default function QuizApp() {
                         <div className="flex justify-between items-start mb-4">
                           <h3 className="text-lg font-bold">{quiz.title}</h3>
                           <div className="flex space-x-1">
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={() => handleEditQuiz(index)}
-                              className="text-blue-500 hover:text-blue-700 p-1"
-                              title="Edit Quiz"
-                            >
-                              <Pencil className="h-5 w-5" />
-                            </Button>
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={() => handleDeleteQuiz(index)}
-                              className="text-red-500 hover:text-red-700 p-1"
-                              title="Delete Quiz"
-                            >
-                              <Trash className="h-5 w-5" />
-                            </Button>
+                            {canEditQuiz(roleFor(quiz)) && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleEditQuiz(index)}
+                                className="text-blue-500 hover:text-blue-700 p-1"
+                                title="Edit Quiz"
+                              >
+                                <Pencil className="h-5 w-5" />
+                              </Button>
+                            )}
+                            {canManageQuiz(roleFor(quiz)) && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleDeleteQuiz(index)}
+                                className="text-red-500 hover:text-red-700 p-1"
+                                title="Delete Quiz"
+                              >
+                                <Trash className="h-5 w-5" />
+                              </Button>
+                            )}
                           </div>
                         </div>
                         <p className="text-sm text-gray-600 dark:text-gray-300 mb-4">{quiz.description}</p>
@@ -2482,13 +3534,31 @@ export default function QuizApp() {
                             Last taken {new Date(quiz.lastTaken).toLocaleString()}
                           </div>
                         )}
+                        {(() => {
+                          const retakeStatus = getRetakeStatus(quiz.settings?.retake, quiz.history, quiz.lastTaken)
+                          return (
+                            <p className={`text-xs mt-2 ${retakeStatus.allowed ? 'text-gray-500 dark:text-gray-400' : 'text-red-600 dark:text-red-400'}`}>
+                              {describeRetakePolicy(quiz.settings?.retake)} · {describeRetakeStatus(retakeStatus)}
+                            </p>
+                          )
+                        })()}
+                      </div>
+                      <div className="flex gap-2 mt-4">
+                        <Button
+                          className="flex-1"
+                          onClick={() => handleStartQuiz(quiz)}
+                        >
+                          Start Quiz
+                        </Button>
+                        <Button
+                          variant="outline"
+                          onClick={() => handleStartQuiz(quiz, 'practice')}
+                          title="Untimed run that shows the answer and explanation after each question"
+                        >
+                          <BookOpen className="h-4 w-4 mr-1" />
+                          Practice
+                        </Button>
                       </div>
-                      <Button
-                        className="w-full mt-4"
-                        onClick={() => handleStartQuiz(quiz)}
-                      >
-                        Start Quiz
-                      </Button>
                     </CardContent>
                   </Card>
                 </motion.div>
@@ -2529,6 +3599,18 @@ export default function QuizApp() {
             animate="visible"
             className="grid grid-cols-1 gap-6"
           >
+            {quizzes.some(quiz => quiz.history && quiz.history.length > 0) && (
+              <motion.div variants={itemVariants}>
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Progress</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <ProgressCharts quizzes={quizzes} />
+                  </CardContent>
+                </Card>
+              </motion.div>
+            )}
             <motion.div variants={itemVariants}>
               <Card>
                 <CardHeader>
@@ -2566,6 +3648,15 @@ export default function QuizApp() {
                                 Quiz has {quiz.questions.length} questions and a time limit of {Math.floor(quiz.timer / 60)} minutes
                               </p>
 
+                              <ItemAnalysis
+                                quizId={quiz.id}
+                                questions={quiz.questions}
+                                history={quiz.history || []}
+                                onEditQuestion={canEditQuiz(roleFor(quiz))
+                                  ? (questionIndex) => handleEditQuiz(quizzes.indexOf(quiz), questionIndex)
+                                  : undefined}
+                              />
+
                               <div className="space-y-2">
                                 <h4 className="text-sm font-medium">Attempt History</h4>
                                 <div className="rounded-md border overflow-hidden">
@@ -2586,9 +3677,20 @@ export default function QuizApp() {
                                             key={`attempt-row-${i}`} 
                                             className={i % 2 === 0 ? 'bg-gray-100 dark:bg-gray-800' : 'bg-white dark:bg-gray-700'}
                                           >
-                                            <td className="px-4 py-2 text-left text-gray-900 dark:text-gray-200">{new Date(attempt.date).toLocaleString()}</td>
+                                            <td className="px-4 py-2 text-left text-gray-900 dark:text-gray-200">
+                                              {new Date(attempt.date).toLocaleString()}
+                                              {attempt.mode === 'practice' && (
+                                                <Badge variant="secondary" className="ml-2">Practice</Badge>
+                                              )}
+                                            </td>
                                             <td className="px-4 py-2 text-center font-medium text-gray-900 dark:text-gray-200">
-                                              {attempt.score}/{attempt.totalQuestions}
+                                              {formatScore(attempt.score)}/{attempt.totalQuestions}
+                                              {attempt.weightedScore !== undefined && attempt.maxScore !== undefined &&
+                                                (attempt.weightedScore !== attempt.score || attempt.maxScore !== attempt.totalQuestions) && (
+                                                <div className="text-xs font-normal text-gray-500 dark:text-gray-400">
+                                                  {formatScore(attempt.weightedScore)}/{formatScore(attempt.maxScore)} pts
+                                                </div>
+                                              )}
                                             </td>
                                             <td className="px-4 py-2 text-center text-gray-900 dark:text-gray-200">
                                               {Math.floor(attempt.timeSpent / 60)}:{(attempt.timeSpent % 60).toString().padStart(2, '0')}
@@ -2598,17 +3700,17 @@ export default function QuizApp() {
                                                 <div className="w-full bg-gray-200 dark:bg-gray-600 rounded-full h-2.5 mr-2 max-w-[100px]">
                                                   <div 
                                                     className={`h-2.5 rounded-full ${
-                                                      (attempt.score / attempt.totalQuestions) >= 0.8 
+                                                      getScorePercentage(attempt) >= 80 
                                                         ? 'bg-green-500' 
-                                                        : (attempt.score / attempt.totalQuestions) >= 0.6 
+                                                        : getScorePercentage(attempt) >= 60 
                                                           ? 'bg-yellow-500' 
                                                           : 'bg-red-500'
                                                     }`}
-                                                    style={{ width: `${(attempt.score / attempt.totalQuestions) * 100}%` }}
+                                                    style={{ width: `${getScorePercentage(attempt)}%` }}
                                                   ></div>
                                                 </div>
                                                 <span className="text-xs">
-                                                  {Math.round((attempt.score / attempt.totalQuestions) * 100)}%
+                                                  {Math.round(getScorePercentage(attempt))}%
                                                 </span>
                                               </div>
                                             </td>
@@ -2626,6 +3728,17 @@ export default function QuizApp() {
                                                 <span className="sr-only">Show details</span>
                                                 <Minus className="h-4 w-4" />
                                               </Button>
+                                              {attempt.questionResults?.some(result => !result.isCorrect) && (
+                                                <Button
+                                                  variant="ghost"
+                                                  size="sm"
+                                                  onClick={() => handleRetryIncorrect(quiz, attempt)}
+                                                  title="Retry the questions answered incorrectly or left blank"
+                                                >
+                                                  <span className="sr-only">Retry incorrect</span>
+                                                  <RefreshCw className="h-4 w-4" />
+                                                </Button>
+                                              )}
                                             </td>
                                           </tr>,
                                           <tr 
@@ -2634,6 +3747,17 @@ export default function QuizApp() {
                                             className="hidden"
                                           >
                                             <td colSpan={5} className="px-4 py-3 bg-gray-50 dark:bg-gray-800 border-t border-b">
+                                              {attempt.sectionResults && attempt.sectionResults.length > 0 && (
+                                                <div className="mb-3">
+                                                  <h4 className="text-sm font-medium mb-1">Sections:</h4>
+                                                  <SectionBreakdown
+                                                    results={attempt.sectionResults}
+                                                    showMarks={attempt.sectionResults.some(result =>
+                                                      result.weightedScore !== result.score || result.maxScore !== result.totalQuestions
+                                                    )}
+                                                  />
+                                                </div>
+                                              )}
                                               {attempt.questionResults ? (
                                                 <div className="space-y-3">
                                                   <h4 className="text-sm font-medium">Question Details:</h4>
@@ -2658,7 +3782,16 @@ export default function QuizApp() {
                                                           }
                                                         </div>
                                                         <div className="flex-1">
-                                                          <p className="text-sm font-medium">{qIdx + 1}. {result.question}</p>
+                                                          <div className="text-sm font-medium flex gap-1">
+                                                            <span>{qIdx + 1}.</span>
+                                                            <RichText text={result.question} markdown={result.format === 'markdown'} />
+                                                            {result.timeSpent !== undefined && (
+                                                              <span className="ml-auto pl-2 text-xs font-normal text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                                                                <Clock className="h-3 w-3 inline mr-1" />
+                                                                {formatTime(result.timeSpent)}
+                                                              </span>
+                                                            )}
+                                                          </div>
                                                           <div className="mt-1 grid grid-cols-1 sm:grid-cols-2 gap-2 text-xs">
                                                             <div>
                                                               <span className="font-semibold">Your answer: </span>
@@ -2666,18 +3799,35 @@ export default function QuizApp() {
                                                                 ? 'text-green-600 dark:text-green-400' 
                                                                 : 'text-red-600 dark:text-red-400'
                                                               }>
-                                                                {result.userAnswer || '(No answer)'}
+                                                                {formatAnswer(result.userAnswer) ? <RichText text={formatAnswer(result.userAnswer)} /> : '(No answer)'}
+                                                                {result.credit !== undefined && result.credit > 0 && result.credit < 1 && (
+                                                                  <span className="ml-1 text-gray-500 dark:text-gray-400">
+                                                                    ({Math.round(result.credit * 100)}% credit)
+                                                                  </span>
+                                                                )}
                                                               </span>
                                                             </div>
                                                             {!result.isCorrect && (
                                                               <div>
                                                                 <span className="font-semibold">Correct answer: </span>
                                                                 <span className="text-green-600 dark:text-green-400">
-                                                                  {result.correctAnswer}
+                                                                  <RichText text={formatAnswer(result.correctAnswer)} />
                                                                 </span>
                                                               </div>
                                                             )}
                                                           </div>
+                                                          {result.options && result.options.length > 0 && (
+                                                            <ol className="mt-1 text-xs list-[upper-alpha] list-inside text-gray-600 dark:text-gray-300">
+                                                              {result.options.map((option, optIdx) => (
+                                                                <li
+                                                                  key={optIdx}
+                                                                  className={isOptionSelected(result.userAnswer, option) ? 'font-semibold' : undefined}
+                                                                >
+                                                                  <RichText text={option} />
+                                                                </li>
+                                                              ))}
+                                                            </ol>
+                                                          )}
                                                         </div>
                                                       </div>
                                                     </div>
@@ -2696,11 +3846,13 @@ export default function QuizApp() {
                                 </div>
                               </div>
 
-                              {quiz.history && quiz.history.length > 1 && (
+                              {/* Practice runs show answers as you go, so only exams count towards the trend */}
+                              {quiz.history && quiz.history.filter(attempt => attempt.mode !== 'practice').length > 1 && (
                                 <div>
                                   <h4 className="text-sm font-medium text-gray-900 dark:text-gray-200 mb-1">Progress Trend</h4>
                                   <div className="h-32 bg-gray-50 dark:bg-gray-800 rounded-md border dark:border-gray-700 p-2 flex items-end justify-between">
-                                    {[...quiz.history]
+                                    {quiz.history
+                                      .filter(attempt => attempt.mode !== 'practice')
                                       .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
                                       .map((attempt, i, arr) => (
                                         <div 
@@ -2713,13 +3865,13 @@ export default function QuizApp() {
                                         >
                                           <div 
                                             className={`w-full max-w-[30px] rounded-t-sm ${
-                                              (attempt.score / attempt.totalQuestions) >= 0.8 
+                                              getScorePercentage(attempt) >= 80 
                                                 ? 'bg-green-500' 
-                                                : (attempt.score / attempt.totalQuestions) >= 0.6 
+                                                : getScorePercentage(attempt) >= 60 
                                                   ? 'bg-yellow-500' 
                                                   : 'bg-red-500'
                                             }`}
-                                            style={{ height: `${(attempt.score / attempt.totalQuestions) * 100}%` }}
+                                            style={{ height: `${getScorePercentage(attempt)}%` }}
                                           ></div>
                                           <div className="text-xs mt-1 text-gray-700 dark:text-gray-300 overflow-hidden text-ellipsis whitespace-nowrap">
                                             {new Date(attempt.date).toLocaleDateString()}
@@ -2751,6 +3903,26 @@ export default function QuizApp() {
           </motion.div>
         </TabsContent>
 
+        <TabsContent value="review">
+          <motion.div
+            initial="hidden"
+            animate="visible"
+            variants={fadeIn}
+          >
+            <Card>
+              <CardHeader>
+                <CardTitle>Due for Review</CardTitle>
+                <CardDescription>
+                  Questions you got wrong, brought back just before you're likely to forget them
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ReviewDeck items={dueReviews} onGrade={handleReviewGrade} />
+              </CardContent>
+            </Card>
+          </motion.div>
+        </TabsContent>
+
         <TabsContent value="import-export">
           <motion.div 
             className="grid grid-cols-1 md:grid-cols-2 gap-6"
@@ -2986,6 +4158,20 @@ export default function QuizApp() {
                 </CardContent>
               </Card>
             </motion.div>
+
+            <motion.div variants={itemVariants} className="md:col-span-2">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Storage</CardTitle>
+                  <CardDescription>
+                    Quizzes, attempts and images are kept in this browser
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <StorageUsage estimate={storageEstimate} />
+                </CardContent>
+              </Card>
+            </motion.div>
           </motion.div>
         </TabsContent>
       </Tabs>
@@ -3282,6 +4468,33 @@ export default function QuizApp() {
         </DialogContent>
       </Dialog>
 
+      <AlertDialog open={!!pendingResume} onOpenChange={(open) => !open && setPendingResume(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Resume your attempt?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingResume && (() => {
+                const quiz = quizzes.find((q) => q.id === pendingResume.quizId)
+                const minutesAway = Math.round(getTimeAway(pendingResume) / 60)
+                return (
+                  <>
+                    You left {pendingResume.mode === 'practice' ? 'a practice run' : 'an exam'} of "{quiz?.title}" unfinished
+                    {minutesAway > 0 ? ` ${minutesAway} ${minutesAway === 1 ? 'minute' : 'minutes'} ago` : ''}.
+                    {pendingResume.mode === 'exam' && !pendingResume.isSectionIntro && (quiz?.settings?.pauseWhenAway
+                      ? " The clock was paused while you were away."
+                      : " The time you were away counts towards the time limit.")}
+                  </>
+                )
+              })()}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel onClick={handleDiscardAttempt}>Discard</AlertDialogCancel>
+            <AlertDialogAction onClick={handleResumeAttempt}>Resume</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       <Dialog open={isQuizModalOpen} onOpenChange={(open) => {
           // Only allow closing the dialog if the quiz isn't running
           if (!isQuizRunning || !open) {
@@ -3306,111 +4519,305 @@ export default function QuizApp() {
           <DialogHeader className="px-6 pt-6 sticky top-0 z-10 bg-background">
             {isQuizRunning && currentQuiz && (
               <div className="flex justify-between items-center mb-2">
-                <DialogTitle>{currentQuiz.title}</DialogTitle>
-                <motion.div 
-                  className={`flex items-center text-sm font-mono px-3 py-1 rounded-full
-                    ${timer <= 30 
-                      ? 'bg-red-100 text-red-700' 
-                      : timer <= 60 
-                        ? 'bg-yellow-100 text-yellow-700' 
-                        : 'bg-gray-100 text-gray-700'}`}
-                  animate={timer <= 30 ? { 
-                    scale: [1, 1.05, 1],
-                    backgroundColor: ['#fee2e2', '#fecaca', '#fee2e2']
-                  } : {}}
-                  transition={{ 
-                    repeat: timer <= 30 ? Infinity : 0, 
-                    duration: 1
-                  }}
-                >
-                  <Clock className={`h-4 w-4 mr-2 ${timer <= 30 ? 'text-red-500' : 'text-primary'}`} />
-                  {formatTime(timer)}
-                </motion.div>
+                <DialogTitle className="flex items-center gap-2">
+                  {currentQuiz.title}
+                  {quizMode === 'practice' && <Badge variant="secondary">Practice</Badge>}
+                </DialogTitle>
+                {quizMode === 'practice' ? (
+                  <div className="flex items-center text-sm font-mono px-3 py-1 rounded-full bg-gray-100 text-gray-700">
+                    <Clock className="h-4 w-4 mr-2 text-primary" />
+                    {formatTime(timer)}
+                  </div>
+                ) : (
+                  <motion.div 
+                    className={`flex items-center text-sm font-mono px-3 py-1 rounded-full
+                      ${timer <= 30 
+                        ? 'bg-red-100 text-red-700' 
+                        : timer <= 60 
+                          ? 'bg-yellow-100 text-yellow-700' 
+                          : 'bg-gray-100 text-gray-700'}`}
+                    animate={timer <= 30 ? { 
+                      scale: [1, 1.05, 1],
+                      backgroundColor: ['#fee2e2', '#fecaca', '#fee2e2']
+                    } : {}}
+                    transition={{ 
+                      repeat: timer <= 30 ? Infinity : 0, 
+                      duration: 1
+                    }}
+                  >
+                    <Clock className={`h-4 w-4 mr-2 ${timer <= 30 ? 'text-red-500' : 'text-primary'}`} />
+                    {formatTime(timer)}
+                  </motion.div>
+                )}
               </div>
             )}
-            {showResults && <DialogTitle>Quiz Results</DialogTitle>}
+            {showResults && <DialogTitle>{quizMode === 'practice' ? 'Practice Results' : 'Quiz Results'}</DialogTitle>}
           </DialogHeader>
 
           {isQuizRunning && currentQuiz && (
             <>
               <div className="px-6 py-4">
-                <Progress
-                  value={((currentQuestionIndex + 1) / currentQuiz.questions.length) * 100}
-                  className="h-2 mb-4"
-                />
-                <p className="text-sm text-gray-500 text-right mb-4">
-                  Question {currentQuestionIndex + 1} of {currentQuiz.questions.length}
-                </p>
+                {sectionRanges.length > 0 && (
+                  <SectionTabs
+                    sections={sectionRanges}
+                    currentSectionIndex={currentSectionIndex}
+                    answeredCounts={sectionRanges.map((range) =>
+                      submittedAnswers.slice(range.start, range.end).filter(isAnswered).length
+                    )}
+                  />
+                )}
+
+                {isSectionIntro && currentSection ? (
+                  <SectionIntro
+                    range={currentSection}
+                    sectionNumber={currentSectionIndex + 1}
+                    sectionCount={sectionRanges.length}
+                    timed={quizMode !== 'practice'}
+                    onStart={() => setIsSectionIntro(false)}
+                  />
+                ) : (
+                <>
+                  <Progress
+                    value={((currentQuestionIndex + 1) / currentQuiz.questions.length) * 100}
+                    className="h-2 mb-4"
+                  />
+                  <QuestionPalette
+                    statuses={currentQuiz.questions.map((_, index) => getPaletteStatus(index))}
+                    answered={currentQuiz.questions.map((_, index) => isQuestionAnswered(index))}
+                    currentIndex={currentQuestionIndex}
+                    firstIndex={firstQuestionInView}
+                    lastIndex={lastQuestionInView}
+                    onJump={jumpToQuestion}
+                  />
+                  {currentTimeLimit !== undefined && (
+                    <p className={`text-sm text-right ${isCurrentQuestionTimeUp ? 'text-red-600' : 'text-gray-500'}`}>
+                      <Clock className="h-3 w-3 inline mr-1" />
+                      {isCurrentQuestionTimeUp
+                        ? "Time's up for this question"
+                        : `${formatTime(currentTimeLimit - (questionTimes[currentQuestionIndex] || 0))} left for this question`}
+                    </p>
+                  )}
+                  <p className="text-sm text-gray-500 text-right mb-4">
+                    {currentSection
+                      ? `${currentSection.section.title}: question ${currentQuestionIndex - currentSection.start + 1} of ${currentSection.end - currentSection.start}`
+                      : `Question ${currentQuestionIndex + 1} of ${currentQuiz.questions.length}`}
+                  </p>
 
-                <AnimatePresence mode="wait">
-                  <motion.div 
-                    key={currentQuestionIndex}
-                    initial={{ opacity: 0, x: 50 }}
-                    animate={{ opacity: 1, x: 0 }}
-                    exit={{ opacity: 0, x: -50 }}
-                    className="space-y-6"
-                  >
-                    <div>
-                      <h3 className="text-lg font-semibold mb-2">
-                        {currentQuiz.questions[currentQuestionIndex].question}
-                      </h3>
-                      {currentQuiz.questions[currentQuestionIndex].questionImages.length > 0 && (
-                        <div className="flex flex-wrap gap-2 mb-4">
-                          {currentQuiz.questions[currentQuestionIndex].questionImages.map((img, i) => (
-                            <img
-                              key={i}
-                              src={img}
-                              alt={`Question ${currentQuestionIndex + 1} image ${i + 1}`}
-                              className="max-h-40 rounded"
-                            />
+                  <AnimatePresence mode="wait">
+                    <motion.div 
+                      key={currentQuestionIndex}
+                      initial={{ opacity: 0, x: 50 }}
+                      animate={{ opacity: 1, x: 0 }}
+                      exit={{ opacity: 0, x: -50 }}
+                      className="space-y-6"
+                    >
+                      <div>
+                        <div className="text-lg font-semibold mb-2" role="heading" aria-level={3}>
+                          <RichText
+                            text={currentQuiz.questions[currentQuestionIndex].question}
+                            markdown={currentQuiz.questions[currentQuestionIndex].format === 'markdown'}
+                          />
+                        </div>
+                        {currentQuiz.questions[currentQuestionIndex].questionImages.length > 0 && (
+                          <div className="flex flex-wrap gap-2 mb-4">
+                            {currentQuiz.questions[currentQuestionIndex].questionImages.map((img, i) => (
+                              <img
+                                key={i}
+                                src={resolveImageSrc(img)}
+                                alt={`Question ${currentQuestionIndex + 1} image ${i + 1}`}
+                                className="max-h-40 rounded"
+                              />
+                            ))}
+                          </div>
+                        )}
+                      </div>
+
+                      {getQuestionType(currentQuiz.questions[currentQuestionIndex]) === 'ordering' ? (
+                        <OrderingQuestion
+                          items={(selectedAnswers[currentQuestionIndex] as string[]) || []}
+                          onChange={handleAnswer}
+                          disabled={isCurrentQuestionLocked}
+                        />
+                      ) : getQuestionType(currentQuiz.questions[currentQuestionIndex]) === 'matching' ? (
+                        <MatchingQuestion
+                          leftItems={(currentQuiz.questions[currentQuestionIndex].pairs || []).map(pair => pair.left)}
+                          choices={shuffledMatchChoices}
+                          value={(selectedAnswers[currentQuestionIndex] as string[]) || []}
+                          onChange={handleAnswer}
+                          disabled={isCurrentQuestionLocked}
+                        />
+                      ) : getQuestionType(currentQuiz.questions[currentQuestionIndex]) === 'text' ? (
+                        <div className="space-y-2">
+                          <Label htmlFor="text-answer">Your answer</Label>
+                          <Input
+                            id="text-answer"
+                            autoComplete="off"
+                            value={(selectedAnswers[currentQuestionIndex] as string) || ''}
+                            onChange={(e) => handleAnswer(e.target.value)}
+                            disabled={isCurrentQuestionLocked}
+                            placeholder="Type your answer"
+                          />
+                        </div>
+                      ) : getQuestionType(currentQuiz.questions[currentQuestionIndex]) === 'numeric' ? (
+                        <div className="space-y-2">
+                          <Label htmlFor="numeric-answer">Your answer</Label>
+                          <Input
+                            id="numeric-answer"
+                            inputMode="decimal"
+                            autoComplete="off"
+                            value={(selectedAnswers[currentQuestionIndex] as string) || ''}
+                            onChange={(e) => handleAnswer(e.target.value)}
+                            disabled={isCurrentQuestionLocked}
+                            placeholder="Enter a number"
+                          />
+                          {(currentQuiz.questions[currentQuestionIndex].numericAnswer?.units || []).length > 0 && (
+                            <p className="text-sm text-gray-500">
+                              Answer in {currentQuiz.questions[currentQuestionIndex].numericAnswer?.units?.[0]}
+                            </p>
+                          )}
+                        </div>
+                      ) : getQuestionType(currentQuiz.questions[currentQuestionIndex]) === 'multiple' ? (
+                        <div className="space-y-2">
+                          <p className="text-sm text-gray-500">Select all that apply</p>
+                          {currentQuiz.questions[currentQuestionIndex].options.map((option, i) => (
+                            <motion.div 
+                              key={i} 
+                              className="flex items-center space-x-2"
+                              initial={{ opacity: 0, y: 10 }}
+                              animate={{ opacity: 1, y: 0 }}
+                              transition={{ delay: i * 0.1 }}
+                            >
+                              <Checkbox
+                                id={`option-${i}`}
+                                checked={isOptionSelected(selectedAnswers[currentQuestionIndex], option)}
+                                onCheckedChange={() => handleToggleAnswer(option)}
+                                disabled={isCurrentQuestionLocked}
+                              />
+                              <Label htmlFor={`option-${i}`} className={`text-base ${isPracticeChecked ? practiceOptionClass(currentQuiz.questions[currentQuestionIndex], option) : ''}`}>
+                                <RichText text={option} />
+                              </Label>
+                            </motion.div>
                           ))}
                         </div>
+                      ) : (
+                        <RadioGroup
+                          value={(selectedAnswers[currentQuestionIndex] as string) || ""}
+                          onValueChange={handleAnswer}
+                          disabled={isCurrentQuestionLocked}
+                          className="space-y-2"
+                        >
+                          {currentQuiz.questions[currentQuestionIndex].options.map((option, i) => (
+                            <motion.div 
+                              key={i} 
+                              className="flex items-center space-x-2"
+                              initial={{ opacity: 0, y: 10 }}
+                              animate={{ opacity: 1, y: 0 }}
+                              transition={{ delay: i * 0.1 }}
+                            >
+                              <RadioGroupItem value={option} id={`option-${i}`} />
+                              <Label htmlFor={`option-${i}`} className={`text-base ${isPracticeChecked ? practiceOptionClass(currentQuiz.questions[currentQuestionIndex], option) : ''}`}>
+                                <RichText text={option} />
+                              </Label>
+                            </motion.div>
+                          ))}
+                        </RadioGroup>
                       )}
-                    </div>
 
-                    <RadioGroup
-                      value={selectedAnswers[currentQuestionIndex] || ""}
-                      onValueChange={handleAnswer}
-                      className="space-y-2"
-                    >
-                      {currentQuiz.questions[currentQuestionIndex].options.map((option, i) => (
-                        <motion.div 
-                          key={i} 
-                          className="flex items-center space-x-2"
-                          initial={{ opacity: 0, y: 10 }}
-                          animate={{ opacity: 1, y: 0 }}
-                          transition={{ delay: i * 0.1 }}
-                        >
-                          <RadioGroupItem value={option} id={`option-${i}`} />
-                          <Label htmlFor={`option-${i}`} className="text-base">
-                            {option}
-                          </Label>
-                        </motion.div>
-                      ))}
-                    </RadioGroup>
-                  </motion.div>
-                </AnimatePresence>
+                      {isPracticeChecked && (
+                        <PracticeFeedback
+                          question={currentQuiz.questions[currentQuestionIndex]}
+                          answer={selectedAnswers[currentQuestionIndex]}
+                        />
+                      )}
+                    </motion.div>
+                  </AnimatePresence>
+                </>
+                )}
               </div>
-              <DialogFooter className="px-6 py-4 bg-gray-50 flex justify-between">
-                <div>
-                  {currentQuestionIndex > 0 && (
-                    <Button variant="outline" onClick={previousQuestion}>
-                      <ArrowLeft className="mr-2 h-4 w-4" />
-                      Previous
+              {!isSectionIntro && (
+                <DialogFooter className="px-6 py-4 bg-gray-50 flex justify-between">
+                  <div className="flex gap-2">
+                    {currentQuestionIndex > firstQuestionInView && (
+                      <Button variant="outline" onClick={previousQuestion}>
+                        <ArrowLeft className="mr-2 h-4 w-4" />
+                        Previous
+                      </Button>
+                    )}
+                    <Button
+                      variant={markedForReview[currentQuestionIndex] ? 'secondary' : 'ghost'}
+                      onClick={toggleMarkedForReview}
+                      aria-pressed={!!markedForReview[currentQuestionIndex]}
+                    >
+                      <Flag className="mr-2 h-4 w-4" />
+                      {markedForReview[currentQuestionIndex] ? 'Unmark' : 'Mark for Review'}
                     </Button>
-                  )}
-                </div>
-                <Button onClick={nextQuestion}>
-                  {currentQuestionIndex < currentQuiz.questions.length - 1 ? (
-                    <>
-                      Next Question
-                      <ArrowRight className="ml-2 h-4 w-4" />
-                    </>
-                  ) : (
-                    'Finish Quiz'
-                  )}
-                </Button>
-              </DialogFooter>
+                  </div>
+                  <div className="flex gap-2">
+                    {quizMode === 'practice' && !isCurrentQuestionLocked && !isAnsweredOnSelect(currentQuiz.questions[currentQuestionIndex]) && (
+                      <Button
+                        variant="outline"
+                        onClick={handleCheckAnswer}
+                        disabled={!isAnswered(selectedAnswers[currentQuestionIndex])}
+                      >
+                        <Check className="mr-2 h-4 w-4" />
+                        Check Answer
+                      </Button>
+                    )}
+                    <Button onClick={nextQuestion}>
+                      {currentQuestionIndex < lastQuestionInView ? (
+                        <>
+                          Next Question
+                          <ArrowRight className="ml-2 h-4 w-4" />
+                        </>
+                      ) : hasNextSection ? (
+                        <>
+                          Next Section
+                          <ArrowRight className="ml-2 h-4 w-4" />
+                        </>
+                      ) : (
+                        'Finish Quiz'
+                      )}
+                    </Button>
+                  </div>
+                </DialogFooter>
+              )}
+
+              <AlertDialog open={isSubmitSummaryOpen && !isSectionIntro} onOpenChange={setIsSubmitSummaryOpen}>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>
+                      {hasNextSection ? `Leave ${currentSection?.section.title ?? 'this section'}?` : 'Submit quiz?'}
+                    </AlertDialogTitle>
+                    <AlertDialogDescription>
+                      {questionsInView.length - unansweredInView.length} of {questionsInView.length} answered
+                      {unansweredInView.length > 0 && `, ${unansweredInView.length} unanswered`}
+                      {markedInView.length > 0 && `, ${markedInView.length} marked for review`}.
+                      {hasNextSection && " You won't be able to come back to this section."}
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  {[
+                    { label: 'Unanswered', indexes: unansweredInView },
+                    { label: 'Marked for review', indexes: markedInView },
+                  ].filter(({ indexes }) => indexes.length > 0).map(({ label, indexes }) => (
+                    <div key={label} className="text-sm">
+                      <p className="font-medium mb-1">{label}</p>
+                      <div className="flex flex-wrap gap-1.5">
+                        {indexes.map((index) => (
+                          <Button key={index} variant="outline" size="sm" className="h-7 px-2" onClick={() => jumpToQuestion(index)}>
+                            {index + 1}
+                          </Button>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Keep Working</AlertDialogCancel>
+                    <AlertDialogAction onClick={submitQuestionsInView}>
+                      {hasNextSection ? 'Next Section' : 'Finish Quiz'}
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
             </>
           )}
 
@@ -3425,7 +4832,7 @@ export default function QuizApp() {
                 >
                   <div className="inline-flex items-center justify-center w-24 h-24 rounded-full bg-primary/10 mb-4">
                     <div className="text-3xl font-bold text-primary quiz-score-counter">
-                      {score}/{currentQuiz.questions.length}
+                      {formatScore(score)}/{currentQuiz.questions.length}
                     </div>
                   </div>
                   <h3 className="text-lg font-semibold quiz-results-heading">
@@ -3436,8 +4843,27 @@ export default function QuizApp() {
                       : 'Keep Practicing! 💪'}
                   </h3>
                   <p className="text-gray-500 mt-1 quiz-score">
-                    You answered {score} out of {currentQuiz.questions.length} questions correctly.
+                    You scored {formatScore(score)} out of {currentQuiz.questions.length}.
                   </p>
+                  {usesWeightedScoring(currentQuiz.questions, currentQuiz.settings?.marking) && (
+                    <p className="text-gray-500 mt-1">
+                      Marks: <span className="font-semibold text-primary">{formatScore(weightedScore.points)}</span> out of {formatScore(weightedScore.max)}
+                      {' '}({Math.round(getScorePercentage({
+                        score,
+                        totalQuestions: currentQuiz.questions.length,
+                        weightedScore: weightedScore.points,
+                        maxScore: weightedScore.max
+                      }))}%)
+                    </p>
+                  )}
+                  {sectionResults.length > 0 && (
+                    <div className="mt-4 text-left">
+                      <SectionBreakdown
+                        results={sectionResults}
+                        showMarks={usesWeightedScoring(currentQuiz.questions, currentQuiz.settings?.marking)}
+                      />
+                    </div>
+                  )}
                 </motion.div>
 
                 <motion.div 
@@ -3453,33 +4879,125 @@ export default function QuizApp() {
                       variants={itemVariants}
                     >
                       <div className="flex items-start gap-2">
-                        {selectedAnswers[index] === question.correctAnswer ? (
+                        {scoreQuestion(question, submittedAnswers[index]) === 1 ? (
                           <div className="bg-green-500 text-white p-1 rounded-full mt-1">
                             <Check className="h-4 w-4" />
                           </div>
+                        ) : scoreQuestion(question, submittedAnswers[index]) > 0 ? (
+                          <div className="bg-yellow-500 text-white p-1 rounded-full mt-1">
+                            <Minus className="h-4 w-4" />
+                          </div>
                         ) : (
                           <div className="bg-red-500 text-white p-1 rounded-full mt-1">
                             <X className="h-4 w-4" />
                           </div>
                         )}
                         <div>
-                          <h4 className="font-medium dark:text-white question-text">{question.question}</h4>
+                          <div className="font-medium dark:text-white question-text" role="heading" aria-level={4}>
+                            <RichText text={question.question} markdown={question.format === 'markdown'} />
+                          </div>
+                          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                            <Clock className="h-3 w-3 inline mr-1" />
+                            Time spent: {formatTime(questionTimes[index] || 0)}
+                          </p>
+                          {getQuestionType(question) === 'ordering' && (
+                            <div className="mt-2 grid grid-cols-1 sm:grid-cols-2 gap-2 text-sm">
+                              <div>
+                                <p className="font-semibold mb-1">Your order:</p>
+                                {!isAnswered(submittedAnswers[index]) && (
+                                  <p className="text-gray-500 dark:text-gray-400">(No answer)</p>
+                                )}
+                                <ol className="space-y-1">
+                                  {((submittedAnswers[index] as string[]) || []).map((item, i) => (
+                                    <li
+                                      key={i}
+                                      className={`p-2 rounded dark:text-gray-100 ${
+                                        question.options[i] === item
+                                          ? 'bg-green-100 dark:bg-green-900/30 border border-green-300 dark:border-green-600'
+                                          : 'bg-red-100 dark:bg-red-900/30 border border-red-300 dark:border-red-600'
+                                      }`}
+                                    >
+                                      {i + 1}. <RichText text={item} />
+                                    </li>
+                                  ))}
+                                </ol>
+                              </div>
+                              <div>
+                                <p className="font-semibold mb-1">Correct order:</p>
+                                <ol className="space-y-1">
+                                  {question.options.map((item, i) => (
+                                    <li key={i} className="p-2 rounded bg-gray-50 dark:bg-gray-800 dark:text-gray-100">
+                                      {i + 1}. <RichText text={item} />
+                                    </li>
+                                  ))}
+                                </ol>
+                              </div>
+                            </div>
+                          )}
+                          {getQuestionType(question) === 'matching' && (
+                            <div className="mt-2 space-y-1 text-sm">
+                              {(question.pairs || []).map((pair, i) => {
+                                const chosen = ((submittedAnswers[index] as string[]) || [])[i] || ''
+                                return (
+                                  <div
+                                    key={i}
+                                    className={`p-2 rounded dark:text-gray-100 ${
+                                      chosen === pair.right
+                                        ? 'bg-green-100 dark:bg-green-900/30 border border-green-300 dark:border-green-600'
+                                        : 'bg-red-100 dark:bg-red-900/30 border border-red-300 dark:border-red-600'
+                                    }`}
+                                  >
+                                    <span className="font-medium"><RichText text={pair.left} /></span> → {chosen ? <RichText text={chosen} /> : '(No answer)'}
+                                    {chosen !== pair.right && (
+                                      <span className="ml-2 text-green-600 dark:text-green-400 text-xs font-medium">
+                                        (Correct: <RichText text={pair.right} />)
+                                      </span>
+                                    )}
+                                  </div>
+                                )
+                              })}
+                            </div>
+                          )}
+                          {(getQuestionType(question) === 'numeric' || getQuestionType(question) === 'text') && (
+                            <div className="mt-2 grid grid-cols-1 sm:grid-cols-2 gap-2 text-sm">
+                              <div className="p-2 rounded bg-gray-50 dark:bg-gray-800 dark:text-gray-100">
+                                <span className="font-semibold">Your answer: </span>
+                                {formatAnswer(submittedAnswers[index]) || '(No answer)'}
+                              </div>
+                              <div className="p-2 rounded bg-green-100 dark:bg-green-900/30 border border-green-300 dark:border-green-600 dark:text-gray-100">
+                                <span className="font-semibold">
+                                  {getQuestionType(question) === 'text' && scoreQuestion(question, submittedAnswers[index]) === 1
+                                    ? 'Matched answer: '
+                                    : 'Correct answer: '}
+                                </span>
+                                <RichText text={formatAnswer(getExpectedAnswer(question, submittedAnswers[index]))} />
+                              </div>
+                              {getQuestionType(question) === 'text' && (question.acceptedAnswers || []).length > 1 && (
+                                <div className="sm:col-span-2 text-xs text-gray-500 dark:text-gray-400">
+                                  Accepted answers: {(question.acceptedAnswers || []).join(' / ')}
+                                </div>
+                              )}
+                            </div>
+                          )}
                           <div className="mt-2 space-y-1">
                             {question.options.map((option, i) => (
                               <div 
                                 key={i} 
                                 className={`text-sm p-2 rounded ${
-                                  option === question.correctAnswer
+                                  isCorrectOption(question, option)
                                     ? 'bg-green-100 dark:bg-green-900/30 border border-green-300 dark:border-green-600 dark:text-gray-100'
-                                    : selectedAnswers[index] === option && selectedAnswers[index] !== question.correctAnswer
+                                    : isOptionSelected(submittedAnswers[index], option)
                                     ? 'bg-red-100 dark:bg-red-900/30 border border-red-300 dark:border-red-600 dark:text-gray-100'
                                     : 'bg-gray-50 dark:bg-gray-800 dark:text-gray-100'
                                 }`}
                               >
-                                {option}
-                                {option === question.correctAnswer && (
+                                <RichText text={option} />
+                                {isCorrectOption(question, option) && (
                                   <span className="ml-2 text-green-600 dark:text-green-400 text-xs font-medium">(Correct)</span>
                                 )}
+                                {getQuestionType(question) === 'multiple' && isOptionSelected(submittedAnswers[index], option) && (
+                                  <span className="ml-2 text-gray-500 dark:text-gray-400 text-xs font-medium">(Your pick)</span>
+                                )}
                               </div>
                             ))}
                           </div>
@@ -3490,7 +5008,7 @@ export default function QuizApp() {
                                 {question.questionImages.map((img, imgIndex) => (
                                   <img 
                                     key={imgIndex} 
-                                    src={img} 
+                                    src={resolveImageSrc(img)} 
                                     alt={`Question ${index + 1} image ${imgIndex + 1}`} 
                                     className="max-h-40 object-contain rounded border border-gray-200 dark:border-gray-700"
                                   />
@@ -3501,7 +5019,9 @@ export default function QuizApp() {
 
                           <div className="mt-3 text-sm text-gray-600 dark:text-gray-300 explanation-container">
                             <p className="font-medium dark:text-gray-200">Explanation:</p>
-                            <p className="explanation-text">{question.answerDescription}</p>
+                            <div className="explanation-text">
+                              <RichText text={question.answerDescription} markdown={question.format === 'markdown'} />
+                            </div>
                           </div>
 
                           {/* Answer Images */}
@@ -3512,7 +5032,7 @@ export default function QuizApp() {
                                 {question.answerImages.map((img, imgIndex) => (
                                   <img 
                                     key={imgIndex} 
-                                    src={img} 
+                                    src={resolveImageSrc(img)} 
                                     alt={`Answer ${index + 1} image ${imgIndex + 1}`} 
                                     className="max-h-40 object-contain rounded border border-gray-200 dark:border-gray-700"
                                   />
@@ -3540,29 +5060,23 @@ export default function QuizApp() {
         </DialogContent>
       </Dialog>
 
-      {/* Password Dialog for Quiz Deletion */}
-      <Dialog open={deletePasswordDialogOpen} onOpenChange={setDeletePasswordDialogOpen}>
+      {/* Confirmation Dialog for Quiz Deletion */}
+      <Dialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>Password Required</DialogTitle>
+            <DialogTitle>Delete Quiz?</DialogTitle>
             <DialogDescription>
-              Enter the master password to delete this quiz.
+              {quizToDelete !== null && quizzes[quizToDelete]
+                ? `"${quizzes[quizToDelete].title}" and its attempt history will be removed from this device.`
+                : "The quiz and its attempt history will be removed from this device."}
             </DialogDescription>
           </DialogHeader>
-          <div className="py-4">
-            <Input
-              type="password"
-              placeholder="Enter password"
-              value={passwordInput}
-              onChange={(e) => setPasswordInput(e.target.value)}
-            />
-          </div>
           <DialogFooter>
-            <Button onClick={() => setDeletePasswordDialogOpen(false)} variant="outline">
+            <Button onClick={() => setDeleteDialogOpen(false)} variant="outline">
               Cancel
             </Button>
-            <Button onClick={handleDeleteQuizConfirm}>
-              Confirm
+            <Button onClick={handleDeleteQuizConfirm} variant="destructive">
+              Delete
             </Button>
           </DialogFooter>
         </DialogContent>
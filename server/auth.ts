@@ -0,0 +1,236 @@
+import type { Express, NextFunction, Request, Response } from "express";
+import session from "express-session";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { z } from "zod";
+import { storage } from "./storage";
+import { insertUserSchema, registerUserSchema, type User as SelectUser } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+declare module "express-session" {
+  interface SessionData {
+    csrfToken?: string;
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+const KEY_LENGTH = 64;
+const SESSION_MAX_AGE = 30 * 24 * 60 * 60 * 1000; // 30 days
+export const CSRF_HEADER = "x-csrf-token";
+const SAFE_METHODS = new Set(["GET", "HEAD", "OPTIONS"]);
+
+// Stored as "<hash>.<salt>", both hex
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = (await scryptAsync(password, salt, KEY_LENGTH)) as Buffer;
+  return `${hash.toString("hex")}.${salt}`;
+}
+
+export async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) {
+    return false;
+  }
+  const storedHash = Buffer.from(hashed, "hex");
+  const suppliedHash = (await scryptAsync(supplied, salt, KEY_LENGTH)) as Buffer;
+  return storedHash.length === suppliedHash.length && timingSafeEqual(storedHash, suppliedHash);
+}
+
+// Never send the password hash to the client
+function toPublicUser(user: SelectUser) {
+  const { password, ...publicUser } = user;
+  return publicUser;
+}
+
+// One token per session, sent back by the client in the X-CSRF-Token header on every change.
+// A cross-site page can make the browser send the session cookie but can't read this token
+function getCsrfToken(req: Request): string {
+  if (!req.session.csrfToken) {
+    req.session.csrfToken = randomBytes(32).toString("hex");
+  }
+  return req.session.csrfToken;
+}
+
+function csrfProtection(req: Request, res: Response, next: NextFunction) {
+  if (SAFE_METHODS.has(req.method) || !req.path.startsWith("/api/")) {
+    return next();
+  }
+  const expected = req.session.csrfToken;
+  const supplied = req.get(CSRF_HEADER);
+  if (
+    !expected || !supplied || expected.length !== supplied.length ||
+    !timingSafeEqual(Buffer.from(expected), Buffer.from(supplied))
+  ) {
+    return res.status(403).json({ message: "Invalid or missing CSRF token" });
+  }
+  next();
+}
+
+// Rejects requests from visitors who aren't logged in
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Log in to do this" });
+  }
+  next();
+}
+
+function getSessionSecret(): string {
+  if (process.env.SESSION_SECRET) {
+    return process.env.SESSION_SECRET;
+  }
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+  console.warn("SESSION_SECRET is not set; using a random secret, so sessions end when the server restarts");
+  return randomBytes(32).toString("hex");
+}
+
+// Cookie sessions (kept by the storage's session store), passport login, CSRF checks and the auth routes.
+// Must run before the other routes are registered so they see req.user
+export function setupAuth(app: Express) {
+  if (app.get("env") === "production") {
+    app.set("trust proxy", 1);
+  }
+
+  app.use(session({
+    secret: getSessionSecret(),
+    store: storage.sessionStore,
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: app.get("env") === "production",
+      maxAge: SESSION_MAX_AGE
+    }
+  }));
+  app.use(passport.initialize());
+  app.use(passport.session());
+  app.use(csrfProtection);
+
+  passport.use(new LocalStrategy(async (username, password, done) => {
+    try {
+      const user = await storage.getUserByUsername(username);
+      if (!user || !(await comparePasswords(password, user.password))) {
+        return done(null, false);
+      }
+      return done(null, user);
+    } catch (error) {
+      return done(error);
+    }
+  }));
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user || false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  // GET a CSRF token for this session; call before the first login, register or change
+  app.get("/api/auth/csrf", (req: Request, res: Response) => {
+    res.json({ csrfToken: getCsrfToken(req) });
+  });
+
+  // REGISTER a new account and log in
+  app.post("/api/auth/register", async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { username, password } = registerUserSchema.parse(req.body);
+
+      const existingUser = await storage.getUserByUsername(username);
+      if (existingUser) {
+        return res.status(409).json({ message: "Username is already taken" });
+      }
+
+      // Everyone starts as a regular user; admins are promoted with `npm run admin:promote`
+      const user = await storage.createUser({
+        username,
+        password: await hashPassword(password)
+      });
+
+      // Logging in starts a new session, which needs a new CSRF token
+      req.login(user, (error) => {
+        if (error) {
+          return next(error);
+        }
+        res.status(201).json({ user: toPublicUser(user), csrfToken: getCsrfToken(req) });
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          message: "Invalid registration details",
+          errors: error.errors
+        });
+      }
+
+      console.error("Error registering user:", error);
+      res.status(500).json({ message: "Failed to register" });
+    }
+  });
+
+  // LOG IN with a username and password
+  app.post("/api/auth/login", (req: Request, res: Response, next: NextFunction) => {
+    const credentials = insertUserSchema.safeParse(req.body);
+    if (!credentials.success) {
+      return res.status(400).json({
+        message: "Username and password are required",
+        errors: credentials.error.errors
+      });
+    }
+
+    passport.authenticate("local", (error: unknown, user: SelectUser | false) => {
+      if (error) {
+        console.error("Error logging in:", error);
+        return res.status(500).json({ message: "Failed to log in" });
+      }
+      if (!user) {
+        return res.status(401).json({ message: "Incorrect username or password" });
+      }
+      req.login(user, (loginError) => {
+        if (loginError) {
+          return next(loginError);
+        }
+        res.json({ user: toPublicUser(user), csrfToken: getCsrfToken(req) });
+      });
+    })(req, res, next);
+  });
+
+  // LOG OUT and end the session
+  app.post("/api/auth/logout", (req: Request, res: Response, next: NextFunction) => {
+    req.logout((error) => {
+      if (error) {
+        return next(error);
+      }
+      res.json({ success: true, csrfToken: getCsrfToken(req) });
+    });
+  });
+
+  // GET the logged-in user, with their role on each quiz they own or were given access to (by unique ID)
+  app.get("/api/auth/me", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not logged in" });
+    }
+    try {
+      const roles = await storage.getQuizRolesForUser(req.user.id);
+      res.json({
+        user: toPublicUser(req.user),
+        quizRoles: Object.fromEntries(roles.map(({ uniqueId, role }) => [uniqueId, role])),
+        csrfToken: getCsrfToken(req)
+      });
+    } catch (error) {
+      console.error("Error fetching quiz roles:", error);
+      res.status(500).json({ message: "Failed to fetch account" });
+    }
+  });
+}
@@ -0,0 +1,112 @@
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import sharp from "sharp";
+
+// Types accepted for upload; everything is converted on the way in, so this only limits what sharp is asked to read
+export const ACCEPTED_IMAGE_TYPES = ["image/jpeg", "image/png", "image/webp", "image/gif", "image/avif"];
+export const MAX_IMAGE_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+// Longest side after resizing - question images never need to be bigger
+const MAX_IMAGE_DIMENSION = 1600;
+
+export type ImageFormat = "webp" | "avif";
+
+const FORMAT_MIME_TYPES: Record<ImageFormat, string> = {
+  webp: "image/webp",
+  avif: "image/avif"
+};
+
+export type ProcessedImage = {
+  hash: string; // SHA-256 of `data`, hex
+  data: Buffer;
+  mimeType: string;
+  width: number;
+  height: number;
+};
+
+// Where image files are kept, by content hash; metadata goes through IStorage
+export interface ImageFileStore {
+  exists(hash: string): Promise<boolean>;
+  read(hash: string): Promise<Buffer | undefined>;
+  write(hash: string, data: Buffer): Promise<void>;
+  delete(hash: string): Promise<boolean>;
+}
+
+// Keeps each image as a file named after its hash, spread over subfolders by the first two characters
+export class FileSystemImageStore implements ImageFileStore {
+  constructor(private readonly root: string) {}
+
+  private pathFor(hash: string): string {
+    return path.join(this.root, hash.slice(0, 2), hash);
+  }
+
+  async exists(hash: string): Promise<boolean> {
+    try {
+      await fs.access(this.pathFor(hash));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async read(hash: string): Promise<Buffer | undefined> {
+    try {
+      return await fs.readFile(this.pathFor(hash));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async write(hash: string, data: Buffer): Promise<void> {
+    const filePath = this.pathFor(hash);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    // Write to a temporary file first so a crash never leaves a half-written image under its hash
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, data);
+    await fs.rename(tempPath, filePath);
+  }
+
+  async delete(hash: string): Promise<boolean> {
+    try {
+      await fs.unlink(this.pathFor(hash));
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return false;
+      }
+      throw error;
+    }
+  }
+}
+
+export function isImageHash(value: string): boolean {
+  return /^[a-f0-9]{64}$/.test(value);
+}
+
+// Strips metadata, applies the EXIF rotation, shrinks to MAX_IMAGE_DIMENSION and re-encodes.
+// Throws when the upload isn't an image sharp can read, whatever its declared type
+export async function processImage(input: Buffer, format: ImageFormat = "webp"): Promise<ProcessedImage> {
+  const pipeline = sharp(input, { animated: false })
+    .rotate()
+    .resize({ width: MAX_IMAGE_DIMENSION, height: MAX_IMAGE_DIMENSION, fit: "inside", withoutEnlargement: true });
+
+  const { data, info } = await (format === "avif" ? pipeline.avif({ quality: 55 }) : pipeline.webp({ quality: 80 }))
+    .toBuffer({ resolveWithObject: true });
+
+  return {
+    hash: createHash("sha256").update(data).digest("hex"),
+    data,
+    mimeType: FORMAT_MIME_TYPES[format],
+    width: info.width,
+    height: info.height
+  };
+}
+
+// Files live under IMAGE_STORAGE_DIR, or uploads/images in the working directory
+export const imageFiles: ImageFileStore = new FileSystemImageStore(
+  process.env.IMAGE_STORAGE_DIR || path.join(process.cwd(), "uploads", "images")
+);
@@ -0,0 +1,37 @@
+import { storage } from "./storage";
+
+// Makes an existing account an admin, or a regular user again with --demote:
+//   npm run admin:promote -- <username> [--demote]
+// Admins own every quiz, so this is run by whoever operates the server rather than offered at registration
+async function main() {
+  const args = process.argv.slice(2);
+  const demote = args.includes("--demote");
+  const username = args.find((arg) => !arg.startsWith("--"));
+
+  if (!username) {
+    console.error("Usage: npm run admin:promote -- <username> [--demote]");
+    return 1;
+  }
+  if (!process.env.DATABASE_URL) {
+    console.error("DATABASE_URL is not set; accounts in in-memory storage only live as long as the server process");
+    return 1;
+  }
+
+  const user = await storage.getUserByUsername(username);
+  if (!user) {
+    console.error(`No account is registered as "${username}"`);
+    return 1;
+  }
+
+  await storage.setUserRole(user.id, demote ? "user" : "admin");
+  console.log(`${username} is now ${demote ? "a regular user" : "an admin"}`);
+  return 0;
+}
+
+// The session store's database pool would otherwise keep the process running
+main()
+  .then((code) => process.exit(code))
+  .catch((error) => {
+    console.error("Failed to change the account's role:", error);
+    process.exit(1);
+  });
@@ -2,11 +2,106 @@ import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import express from "express";
 import path from "path";
+import multer from "multer";
 import { storage } from "./storage";
-import { insertQuizSchema, syncQuizSchema } from "@shared/schema";
+import { requireAuth, setupAuth } from "./auth";
+import { ACCEPTED_IMAGE_TYPES, MAX_IMAGE_UPLOAD_BYTES, imageFiles, isImageHash, processImage } from "./images";
+import {
+  grantQuizRoleSchema, insertQuizSchema, recordAttemptsSchema, syncQuizSchema,
+  type InsertQuiz, type Quiz, type QuizAttempt, type QuizRole
+} from "@shared/schema";
+import { canEditQuiz, canManageQuiz, canViewQuiz, getQuizRole } from "@shared/permissions";
+import { getRetakeStatus } from "@shared/retake";
+import { ensureQuestionIds } from "@shared/question-ids";
 import { z } from "zod";
 
+// Questions from older clients may arrive without ids; give them one before storing.
+// When the quiz is already stored, a question with the same text keeps its stored id so repeated syncs agree
+function withQuestionIds<T extends Partial<InsertQuiz>>(quiz: T, existing?: Quiz): T {
+  if (!quiz.questions) return quiz;
+  const storedIds = new Map((existing?.questions || []).filter(q => q.id).map(q => [q.question, q.id]));
+  const questions = quiz.questions.map(question =>
+    question.id || !storedIds.has(question.question) ? question : { ...question, id: storedIds.get(question.question) }
+  );
+  return { ...quiz, questions: ensureQuestionIds(questions) };
+}
+
+// Finish times of the new exam attempts that the quiz's retake policy doesn't allow after `past`.
+// Each new attempt is checked at the time it started, oldest first; practice runs are always allowed.
+// The cooldown runs from the latest exam accepted so far
+function findRejectedAttempts(
+  quiz: Quiz,
+  past: readonly QuizAttempt[],
+  incoming: readonly QuizAttempt[]
+): Set<number> {
+  const accepted = [...past];
+  const known = new Set(accepted.map(attempt => new Date(attempt.date).getTime()));
+  const rejected = new Set<number>();
+  let lastTaken: Date | undefined;
+
+  const newExams = incoming
+    .filter(attempt => attempt.mode !== 'practice' && !known.has(new Date(attempt.date).getTime()))
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+  for (const attempt of newExams) {
+    const finishedAt = new Date(attempt.date);
+    const startedAt = new Date(finishedAt.getTime() - attempt.timeSpent * 1000);
+    if (getRetakeStatus(quiz.settings?.retake, accepted, lastTaken, startedAt).allowed) {
+      accepted.push(attempt);
+      lastTaken = !lastTaken || finishedAt > lastTaken ? finishedAt : lastTaken;
+    } else {
+      rejected.add(finishedAt.getTime());
+    }
+  }
+
+  return rejected;
+}
+
+// A new quiz's history is its creator's own
+function asCreatorHistory<T extends Partial<InsertQuiz>>(quiz: T, userId: number): T {
+  return quiz.history ? { ...quiz, history: quiz.history.map(attempt => ({ ...attempt, userId })) } : quiz;
+}
+
+// The requesting user's role on a stored quiz, or null for visitors and users without access
+async function getRequesterRole(req: Request, quiz: Quiz): Promise<QuizRole | null> {
+  if (!req.user) return null;
+  const granted = await storage.getQuizRole(quiz.id, req.user.id);
+  return getQuizRole(req.user, quiz, granted);
+}
+
+// The requesting user's roles by quiz unique ID, for responses that list many quizzes
+async function getRequesterRoles(req: Request): Promise<Map<string, QuizRole>> {
+  if (!req.user) return new Map();
+  const roles = await storage.getQuizRolesForUser(req.user.id);
+  return new Map(roles.map(({ uniqueId, role }) => [uniqueId, role]));
+}
+
+// A quiz as the requester may see it: owners and editors get all of it, while everyone else gets
+// neither its password nor anyone else's attempts, and lastTaken is their own
+function toQuizResponse(req: Request, quiz: Quiz, role: QuizRole | null) {
+  if (canEditQuiz(role)) return quiz;
+  const { password, ...visible } = quiz;
+  const history = req.user ? (quiz.history || []).filter(attempt => attempt.userId === req.user!.id) : [];
+  const lastTaken = history.reduce<Date | null>((latest, attempt) => {
+    const date = new Date(attempt.date);
+    return !latest || date > latest ? date : latest;
+  }, null);
+  return { ...visible, history, lastTaken };
+}
+
+// Uploads are kept in memory only long enough to be resized and converted
+const imageUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_IMAGE_UPLOAD_BYTES, files: 1 },
+  fileFilter: (req, file, callback) => {
+    callback(null, ACCEPTED_IMAGE_TYPES.includes(file.mimetype));
+  }
+}).single("image");
+
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Sessions, login and CSRF checks come first so every route below sees req.user
+  setupAuth(app);
+
   // Test static file routes - serve files from /public directory
   app.use('/test-static', express.static(path.join(process.cwd(), 'public')));
   
@@ -86,8 +181,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/quizzes", async (req: Request, res: Response) => {
     try {
       const quizzes = await storage.getPublicQuizzes();
+      const roles = await getRequesterRoles(req);
       // Return the array directly, not wrapped in an object
-      res.json(quizzes);
+      res.json(quizzes.map(quiz => toQuizResponse(req, quiz, getQuizRole(req.user, quiz, roles.get(quiz.uniqueId)))));
     } catch (error) {
       console.error("Error fetching quizzes:", error);
       res.status(500).json({ message: "Failed to fetch quizzes" });
@@ -102,13 +198,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid quiz ID" });
       }
       
+      // Private quizzes are only there for people with a role on them
       const quiz = await storage.getQuiz(id);
-      if (!quiz) {
+      const role = quiz ? await getRequesterRole(req, quiz) : null;
+      if (!quiz || !canViewQuiz(role, quiz)) {
         return res.status(404).json({ message: "Quiz not found" });
       }
       
       // Return the quiz directly, not wrapped in an object
-      res.json(quiz);
+      res.json(toQuizResponse(req, quiz, role));
     } catch (error) {
       console.error("Error fetching quiz:", error);
       res.status(500).json({ message: "Failed to fetch quiz" });
@@ -120,13 +218,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const uniqueId = req.params.uniqueId;
       const quiz = await storage.getQuizByUniqueId(uniqueId);
+      const role = quiz ? await getRequesterRole(req, quiz) : null;
       
-      if (!quiz) {
+      if (!quiz || !canViewQuiz(role, quiz)) {
         return res.status(404).json({ message: "Quiz not found" });
       }
       
       // Return the quiz directly, not wrapped in an object
-      res.json(quiz);
+      res.json(toQuizResponse(req, quiz, role));
     } catch (error) {
       console.error("Error fetching quiz by unique ID:", error);
       res.status(500).json({ message: "Failed to fetch quiz" });
@@ -134,12 +233,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // CREATE a new quiz
-  app.post("/api/quizzes", async (req: Request, res: Response) => {
+  app.post("/api/quizzes", requireAuth, async (req: Request, res: Response) => {
     try {
       // Validate the request body against our schema
       const quizData = insertQuizSchema.parse(req.body);
       
-      const quiz = await storage.createQuiz(quizData);
+      // The owner comes from the session, never from the request body
+      const quiz = await storage.createQuiz({ ...asCreatorHistory(withQuestionIds(quizData), req.user!.id), createdBy: req.user!.id });
       // Return the quiz directly, not wrapped in an object
       res.status(201).json(quiz);
     } catch (error) {
@@ -157,17 +257,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // UPDATE a quiz
-  app.put("/api/quizzes/:id", async (req: Request, res: Response) => {
+  app.put("/api/quizzes/:id", requireAuth, async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
         return res.status(400).json({ message: "Invalid quiz ID" });
       }
       
-      // Partial validation for update
-      const quizData = insertQuizSchema.partial().parse(req.body);
-      
-      const updatedQuiz = await storage.updateQuiz(id, quizData);
+      // Partial validation for update; the owner can't be changed this way, and learners' attempts
+      // only ever come in through the attempts route, so an editor's copy can't overwrite them
+      const { createdBy, history, lastTaken, version, ...quizData } = insertQuizSchema.partial().parse(req.body);
+
+      const existingQuiz = await storage.getQuiz(id);
+      const role = existingQuiz ? await getRequesterRole(req, existingQuiz) : null;
+      if (!existingQuiz || !canViewQuiz(role, existingQuiz)) {
+        return res.status(404).json({ message: "Quiz not found" });
+      }
+      if (!canEditQuiz(role)) {
+        return res.status(403).json({ message: "Only the quiz's owners and editors can change it" });
+      }
+      // Changes must be made to the version they were based on, so one editor can't undo another's unseen
+      if (version !== existingQuiz.version) {
+        return res.status(409).json({
+          message: "The quiz has changed since it was loaded; reload it and make the change again",
+          version: existingQuiz.version
+        });
+      }
+
+      const updatedQuiz = await storage.updateQuiz(id, withQuestionIds(quizData, existingQuiz));
       if (!updatedQuiz) {
         return res.status(404).json({ message: "Quiz not found" });
       }
@@ -188,13 +305,70 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // RECORD attempts on a quiz: open to anyone who can see it, unlike changing the quiz itself.
+  // The retake policy is applied to each learner's own attempts, and already recorded ones are skipped
+  app.post("/api/quizzes/:id/attempts", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid quiz ID" });
+      }
+
+      const { attempts } = recordAttemptsSchema.parse(req.body);
+
+      const quiz = await storage.getQuiz(id);
+      if (!quiz || !canViewQuiz(await getRequesterRole(req, quiz), quiz)) {
+        return res.status(404).json({ message: "Quiz not found" });
+      }
+
+      const userId = req.user!.id;
+      const own = (quiz.history || []).filter(attempt => attempt.userId === userId);
+      const known = new Set(own.map(attempt => new Date(attempt.date).getTime()));
+      const incoming = attempts
+        .filter(attempt => !known.has(attempt.date.getTime()))
+        .map(attempt => ({ ...attempt, userId }));
+
+      const rejected = findRejectedAttempts(quiz, own, incoming);
+      const recorded = incoming.filter(attempt => !rejected.has(attempt.date.getTime()));
+      if (rejected.size > 0) {
+        console.warn(`Rejected ${rejected.size} attempt(s) by user ${userId} on quiz ${quiz.uniqueId} that broke its retake policy`);
+      }
+
+      if (recorded.length > 0) {
+        await storage.addQuizAttempts(id, recorded);
+      }
+
+      res.status(201).json({ recorded, rejected: rejected.size });
+    } catch (error) {
+      console.error("Error recording attempts:", error);
+
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          message: "Invalid attempts",
+          errors: error.errors
+        });
+      }
+
+      res.status(500).json({ message: "Failed to record attempts" });
+    }
+  });
+
   // DELETE a quiz
-  app.delete("/api/quizzes/:id", async (req: Request, res: Response) => {
+  app.delete("/api/quizzes/:id", requireAuth, async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
         return res.status(400).json({ message: "Invalid quiz ID" });
       }
+
+      const existingQuiz = await storage.getQuiz(id);
+      const role = existingQuiz ? await getRequesterRole(req, existingQuiz) : null;
+      if (!existingQuiz || !canViewQuiz(role, existingQuiz)) {
+        return res.status(404).json({ message: "Quiz not found" });
+      }
+      if (!canManageQuiz(role)) {
+        return res.status(403).json({ message: "Only the quiz's owners can delete it" });
+      }
       
       const success = await storage.deleteQuiz(id);
       if (!success) {
@@ -209,19 +383,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // SYNC quizzes across devices
-  app.post("/api/quizzes/sync", async (req: Request, res: Response) => {
+  app.post("/api/quizzes/sync", requireAuth, async (req: Request, res: Response) => {
     try {
       // Validate the sync request body
       const syncData = syncQuizSchema.parse(req.body);
       
+      // New quizzes belong to whoever syncs them; existing ones keep their owner and only take changes from editors.
+      // Attempts on quizzes the server already knows are recorded through the attempts route, never replaced here
+      const quizzesToSync = await Promise.all(syncData.quizzes.map(async ({ createdBy, ...quiz }) => {
+        const existingQuiz = await storage.getQuizByUniqueId(quiz.uniqueId);
+        if (!existingQuiz) {
+          return { ...asCreatorHistory(withQuestionIds(quiz), req.user!.id), createdBy: req.user!.id };
+        }
+        if (!canEditQuiz(await getRequesterRole(req, existingQuiz))) {
+          console.warn(`Skipped syncing quiz ${existingQuiz.uniqueId}: user ${req.user!.id} can't edit it`);
+          return null;
+        }
+        const { history, lastTaken, ...changes } = withQuestionIds(quiz, existingQuiz);
+        return changes;
+      }));
+
       // Process the quizzes to sync
-      const syncedQuizzes = await storage.syncQuizzes(syncData.quizzes);
+      const syncedQuizzes = await storage.syncQuizzes(quizzesToSync.filter((quiz): quiz is InsertQuiz => quiz !== null));
       
       // Return all synced quizzes
       const allQuizzes = await storage.getPublicQuizzes();
+      const roles = await getRequesterRoles(req);
       
       // Return just the array of all quizzes, the client doesn't need to distinguish between synced and existing
-      res.json(allQuizzes);
+      res.json(allQuizzes.map(quiz => toQuizResponse(req, quiz, getQuizRole(req.user, quiz, roles.get(quiz.uniqueId)))));
     } catch (error) {
       console.error("Error syncing quizzes:", error);
       
@@ -236,6 +426,196 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // GET who has a role on a quiz (owners only)
+  app.get("/api/quizzes/:id/roles", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid quiz ID" });
+      }
+
+      const quiz = await storage.getQuiz(id);
+      const role = quiz ? await getRequesterRole(req, quiz) : null;
+      if (!quiz || !canViewQuiz(role, quiz)) {
+        return res.status(404).json({ message: "Quiz not found" });
+      }
+      if (!canManageQuiz(role)) {
+        return res.status(403).json({ message: "Only the quiz's owners can see who has access" });
+      }
+
+      const grants = await storage.getQuizRoleGrants(id);
+      const members = await Promise.all(grants.map(async (grant) => {
+        const user = await storage.getUser(grant.userId);
+        return { userId: grant.userId, username: user?.username ?? null, role: grant.role };
+      }));
+      const creator = quiz.createdBy ? await storage.getUser(quiz.createdBy) : undefined;
+
+      res.json({
+        createdBy: creator ? { userId: creator.id, username: creator.username } : null,
+        members
+      });
+    } catch (error) {
+      console.error("Error fetching quiz roles:", error);
+      res.status(500).json({ message: "Failed to fetch quiz roles" });
+    }
+  });
+
+  // GRANT a user a role on a quiz, replacing any role they had (owners only)
+  app.put("/api/quizzes/:id/roles", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid quiz ID" });
+      }
+
+      const { username, role: grantedRole } = grantQuizRoleSchema.parse(req.body);
+
+      const quiz = await storage.getQuiz(id);
+      const role = quiz ? await getRequesterRole(req, quiz) : null;
+      if (!quiz || !canViewQuiz(role, quiz)) {
+        return res.status(404).json({ message: "Quiz not found" });
+      }
+      if (!canManageQuiz(role)) {
+        return res.status(403).json({ message: "Only the quiz's owners can change who has access" });
+      }
+
+      const user = await storage.getUserByUsername(username);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (user.id === quiz.createdBy) {
+        return res.status(400).json({ message: "The quiz's creator is always an owner" });
+      }
+
+      const grant = await storage.setQuizRole({ quizId: id, userId: user.id, role: grantedRole });
+      res.json({ userId: grant.userId, username: user.username, role: grant.role });
+    } catch (error) {
+      console.error("Error granting quiz role:", error);
+
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          message: "Invalid role",
+          errors: error.errors
+        });
+      }
+
+      res.status(500).json({ message: "Failed to grant quiz role" });
+    }
+  });
+
+  // REVOKE a user's role on a quiz (owners only)
+  app.delete("/api/quizzes/:id/roles/:userId", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const userId = parseInt(req.params.userId);
+      if (isNaN(id) || isNaN(userId)) {
+        return res.status(400).json({ message: "Invalid quiz or user ID" });
+      }
+
+      const quiz = await storage.getQuiz(id);
+      const role = quiz ? await getRequesterRole(req, quiz) : null;
+      if (!quiz || !canViewQuiz(role, quiz)) {
+        return res.status(404).json({ message: "Quiz not found" });
+      }
+      if (!canManageQuiz(role)) {
+        return res.status(403).json({ message: "Only the quiz's owners can change who has access" });
+      }
+
+      const success = await storage.removeQuizRole(id, userId);
+      if (!success) {
+        return res.status(404).json({ message: "That user has no role on this quiz" });
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error revoking quiz role:", error);
+      res.status(500).json({ message: "Failed to revoke quiz role" });
+    }
+  });
+
+  // UPLOAD an image (multipart field "image"), resized and converted to WebP, or AVIF with ?format=avif
+  app.post("/api/images", requireAuth, (req: Request, res: Response) => {
+    imageUpload(req, res, async (uploadError: unknown) => {
+      try {
+        if (uploadError instanceof multer.MulterError) {
+          const status = uploadError.code === "LIMIT_FILE_SIZE" ? 413 : 400;
+          return res.status(status).json({ message: uploadError.message });
+        }
+        if (uploadError) {
+          throw uploadError;
+        }
+        if (!req.file) {
+          return res.status(400).json({
+            message: `Expected an image in the "image" field (${ACCEPTED_IMAGE_TYPES.join(", ")})`
+          });
+        }
+
+        const format = req.query.format === "avif" ? "avif" : "webp";
+        let processed;
+        try {
+          processed = await processImage(req.file.buffer, format);
+        } catch (processError) {
+          console.error("Error processing image:", processError);
+          return res.status(400).json({ message: "The file could not be read as an image" });
+        }
+
+        // Content-addressed: the same image uploaded twice is stored once
+        if (!(await imageFiles.exists(processed.hash))) {
+          await imageFiles.write(processed.hash, processed.data);
+        }
+        const image = await storage.createImage({
+          hash: processed.hash,
+          mimeType: processed.mimeType,
+          size: processed.data.length,
+          width: processed.width,
+          height: processed.height,
+          originalName: req.file.originalname || null,
+          createdBy: req.user!.id
+        });
+
+        res.status(201).json({ ...image, url: `/api/images/${image.hash}` });
+      } catch (error) {
+        console.error("Error uploading image:", error);
+        res.status(500).json({ message: "Failed to upload image" });
+      }
+    });
+  });
+
+  // GET an image by content hash; the content behind a hash never changes, so it can be cached for good
+  app.get("/api/images/:hash", async (req: Request, res: Response) => {
+    try {
+      const hash = req.params.hash;
+      if (!isImageHash(hash)) {
+        return res.status(400).json({ message: "Invalid image hash" });
+      }
+
+      const image = await storage.getImage(hash);
+      if (!image) {
+        return res.status(404).json({ message: "Image not found" });
+      }
+
+      const etag = `"${hash}"`;
+      res.set({
+        "Cache-Control": "public, max-age=31536000, immutable",
+        "ETag": etag
+      });
+      if (req.headers["if-none-match"] === etag) {
+        return res.status(304).end();
+      }
+
+      const data = await imageFiles.read(hash);
+      if (!data) {
+        console.error(`Image ${hash} has metadata but no file`);
+        return res.status(404).json({ message: "Image not found" });
+      }
+
+      res.type(image.mimeType).send(data);
+    } catch (error) {
+      console.error("Error fetching image:", error);
+      res.status(500).json({ message: "Failed to fetch image" });
+    }
+  });
+
   const httpServer = createServer(app);
 
   return httpServer;
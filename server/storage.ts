@@ -1,17 +1,28 @@
-import { users, type User, type InsertUser, quizzes, type Quiz, type InsertQuiz } from "@shared/schema";
+import {
+  users, type User, type InsertUser, type UserRole, quizzes, type Quiz, type InsertQuiz, images, type ImageMetadata, type InsertImage,
+  quizRoles, type QuizRole, type QuizRoleGrant, type QuizAttempt
+} from "@shared/schema";
 import { v4 as uuidv4 } from 'uuid';
 import { drizzle } from 'drizzle-orm/neon-serverless';
-import { neon } from '@neondatabase/serverless';
-import { eq, and, ne } from 'drizzle-orm';
+import { neon, neonConfig, Pool } from '@neondatabase/serverless';
+import session from 'express-session';
+import createMemoryStore from 'memorystore';
+import connectPg from 'connect-pg-simple';
+import ws from 'ws';
+import { eq, and, ne, sql } from 'drizzle-orm';
 
 // modify the interface with any CRUD methods
 // you might need
 
 export interface IStorage {
+  // Where login sessions are kept
+  sessionStore: session.Store;
+
   // User methods
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  setUserRole(id: number, role: UserRole): Promise<User | undefined>;
   
   // Quiz methods
   getQuiz(id: number): Promise<Quiz | undefined>;
@@ -22,20 +33,43 @@ export interface IStorage {
   updateQuiz(id: number, quiz: Partial<InsertQuiz>): Promise<Quiz | undefined>;
   deleteQuiz(id: number): Promise<boolean>;
   syncQuizzes(quizzesToSync: InsertQuiz[]): Promise<Quiz[]>;
+  // Appends to a quiz's history and moves lastTaken on; unlike updateQuiz this leaves the version alone,
+  // since learners taking a quiz doesn't change it for its editors
+  addQuizAttempts(id: number, attempts: QuizAttempt[]): Promise<Quiz | undefined>;
+
+  // Quiz role methods (a quiz's creator is its owner without a grant)
+  getQuizRole(quizId: number, userId: number): Promise<QuizRole | undefined>;
+  getQuizRoleGrants(quizId: number): Promise<QuizRoleGrant[]>;
+  getQuizRolesForUser(userId: number): Promise<Array<{ uniqueId: string; role: QuizRole }>>;
+  setQuizRole(grant: QuizRoleGrant): Promise<QuizRoleGrant>;
+  removeQuizRole(quizId: number, userId: number): Promise<boolean>;
+
+  // Image metadata methods (the files themselves live in an ImageFileStore)
+  getImage(hash: string): Promise<ImageMetadata | undefined>;
+  createImage(image: InsertImage): Promise<ImageMetadata>;
 }
 
 // In-memory storage for development
 export class MemStorage implements IStorage {
+  sessionStore: session.Store;
   private users: Map<number, User>;
   private quizCollection: Map<number, Quiz>;
+  private imageCollection: Map<string, ImageMetadata>;
+  private quizRoleCollection: Map<string, QuizRoleGrant>; // Keyed by `${quizId}:${userId}`
   userCurrentId: number;
   quizCurrentId: number;
 
   constructor() {
     this.users = new Map();
     this.quizCollection = new Map();
+    this.imageCollection = new Map();
+    this.quizRoleCollection = new Map();
     this.userCurrentId = 1;
     this.quizCurrentId = 1;
+
+    // Sessions are lost on restart along with everything else; expired ones are pruned daily
+    const MemoryStore = createMemoryStore(session);
+    this.sessionStore = new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 });
   }
 
   // User methods
@@ -51,10 +85,18 @@ export class MemStorage implements IStorage {
 
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = this.userCurrentId++;
-    const user: User = { ...insertUser, id };
+    const user: User = { role: 'user', ...insertUser, id };
     this.users.set(id, user);
     return user;
   }
+
+  async setUserRole(id: number, role: UserRole): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+    const updated = { ...user, role };
+    this.users.set(id, updated);
+    return updated;
+  }
   
   // Quiz methods
   async getQuiz(id: number): Promise<Quiz | undefined> {
@@ -120,8 +162,26 @@ export class MemStorage implements IStorage {
     this.quizCollection.set(id, updatedQuiz);
     return updatedQuiz;
   }
+
+  async addQuizAttempts(id: number, attempts: QuizAttempt[]): Promise<Quiz | undefined> {
+    const existingQuiz = this.quizCollection.get(id);
+    if (!existingQuiz) {
+      return undefined;
+    }
+
+    const times = [existingQuiz.lastTaken, ...attempts.map(attempt => attempt.date)]
+      .filter((date): date is Date => !!date)
+      .map(date => new Date(date).getTime());
+    const lastTaken = times.length > 0 ? new Date(Math.max(...times)) : existingQuiz.lastTaken;
+    const updatedQuiz: Quiz = { ...existingQuiz, history: [...(existingQuiz.history || []), ...attempts], lastTaken };
+    this.quizCollection.set(id, updatedQuiz);
+    return updatedQuiz;
+  }
   
   async deleteQuiz(id: number): Promise<boolean> {
+    Array.from(this.quizRoleCollection.values())
+      .filter((grant) => grant.quizId === id)
+      .forEach((grant) => this.quizRoleCollection.delete(`${grant.quizId}:${grant.userId}`));
     return this.quizCollection.delete(id);
   }
   
@@ -152,10 +212,65 @@ export class MemStorage implements IStorage {
     
     return synced;
   }
+
+  // Quiz role methods
+  async getQuizRole(quizId: number, userId: number): Promise<QuizRole | undefined> {
+    return this.quizRoleCollection.get(`${quizId}:${userId}`)?.role;
+  }
+
+  async getQuizRoleGrants(quizId: number): Promise<QuizRoleGrant[]> {
+    return Array.from(this.quizRoleCollection.values()).filter((grant) => grant.quizId === quizId);
+  }
+
+  async getQuizRolesForUser(userId: number): Promise<Array<{ uniqueId: string; role: QuizRole }>> {
+    const roles = new Map<string, QuizRole>();
+    Array.from(this.quizRoleCollection.values())
+      .filter((grant) => grant.userId === userId)
+      .forEach((grant) => {
+        const quiz = this.quizCollection.get(grant.quizId);
+        if (quiz) roles.set(quiz.uniqueId, grant.role);
+      });
+    Array.from(this.quizCollection.values())
+      .filter((quiz) => quiz.createdBy === userId)
+      .forEach((quiz) => roles.set(quiz.uniqueId, 'owner'));
+    return Array.from(roles, ([uniqueId, role]) => ({ uniqueId, role }));
+  }
+
+  async setQuizRole(grant: QuizRoleGrant): Promise<QuizRoleGrant> {
+    this.quizRoleCollection.set(`${grant.quizId}:${grant.userId}`, grant);
+    return grant;
+  }
+
+  async removeQuizRole(quizId: number, userId: number): Promise<boolean> {
+    return this.quizRoleCollection.delete(`${quizId}:${userId}`);
+  }
+
+  // Image metadata methods
+  async getImage(hash: string): Promise<ImageMetadata | undefined> {
+    return this.imageCollection.get(hash);
+  }
+
+  async createImage(image: InsertImage): Promise<ImageMetadata> {
+    // The same content uploaded again keeps its first record
+    const existing = this.imageCollection.get(image.hash);
+    if (existing) {
+      return existing;
+    }
+
+    const newImage: ImageMetadata = {
+      ...image,
+      originalName: image.originalName ?? null,
+      createdAt: image.createdAt || new Date(),
+      createdBy: image.createdBy ?? null
+    };
+    this.imageCollection.set(image.hash, newImage);
+    return newImage;
+  }
 }
 
 // Database storage implementation using Drizzle ORM
 export class DbStorage implements IStorage {
+  sessionStore: session.Store;
   private db: ReturnType<typeof drizzle>;
   
   constructor() {
@@ -166,6 +281,14 @@ export class DbStorage implements IStorage {
       this.db = drizzle({
         driver: sql
       });
+
+      // Sessions go in a "session" table, created on first use; connect-pg-simple needs a pg-style pool
+      neonConfig.webSocketConstructor = ws;
+      const PostgresSessionStore = connectPg(session);
+      this.sessionStore = new PostgresSessionStore({
+        pool: new Pool({ connectionString: process.env.DATABASE_URL }),
+        createTableIfMissing: true
+      });
     } catch (error) {
       console.error("Database connection error:", error);
       // Create a fallback in-memory database if connection fails
@@ -188,6 +311,11 @@ export class DbStorage implements IStorage {
     const result = await this.db.insert(users).values(insertUser).returning();
     return result[0];
   }
+
+  async setUserRole(id: number, role: UserRole): Promise<User | undefined> {
+    const result = await this.db.update(users).set({ role }).where(eq(users.id, id)).returning();
+    return result[0];
+  }
   
   // Quiz methods
   async getQuiz(id: number): Promise<Quiz | undefined> {
@@ -234,6 +362,20 @@ export class DbStorage implements IStorage {
     
     return result[0];
   }
+
+  async addQuizAttempts(id: number, attempts: QuizAttempt[]): Promise<Quiz | undefined> {
+    const latest = new Date(Math.max(...attempts.map(attempt => new Date(attempt.date).getTime())));
+    // Done in one statement so attempts recorded at the same time don't overwrite each other
+    const result = await this.db.update(quizzes)
+      .set({
+        history: sql`coalesce(${quizzes.history}, '[]'::jsonb) || ${JSON.stringify(attempts)}::jsonb`,
+        lastTaken: sql`greatest(${quizzes.lastTaken}, ${latest.toISOString()}::timestamp)`
+      })
+      .where(eq(quizzes.id, id))
+      .returning();
+
+    return result[0];
+  }
   
   async deleteQuiz(id: number): Promise<boolean> {
     const result = await this.db.delete(quizzes).where(eq(quizzes.id, id)).returning();
@@ -267,6 +409,56 @@ export class DbStorage implements IStorage {
     
     return synced;
   }
+
+  // Quiz role methods
+  async getQuizRole(quizId: number, userId: number): Promise<QuizRole | undefined> {
+    const result = await this.db.select().from(quizRoles)
+      .where(and(eq(quizRoles.quizId, quizId), eq(quizRoles.userId, userId)));
+    return result[0]?.role;
+  }
+
+  async getQuizRoleGrants(quizId: number): Promise<QuizRoleGrant[]> {
+    return await this.db.select().from(quizRoles).where(eq(quizRoles.quizId, quizId));
+  }
+
+  async getQuizRolesForUser(userId: number): Promise<Array<{ uniqueId: string; role: QuizRole }>> {
+    const granted = await this.db.select({ uniqueId: quizzes.uniqueId, role: quizRoles.role })
+      .from(quizRoles)
+      .innerJoin(quizzes, eq(quizRoles.quizId, quizzes.id))
+      .where(eq(quizRoles.userId, userId));
+    const owned = await this.db.select({ uniqueId: quizzes.uniqueId }).from(quizzes).where(eq(quizzes.createdBy, userId));
+
+    const roles = new Map<string, QuizRole>(granted.map((grant) => [grant.uniqueId, grant.role]));
+    owned.forEach((quiz) => roles.set(quiz.uniqueId, 'owner'));
+    return Array.from(roles, ([uniqueId, role]) => ({ uniqueId, role }));
+  }
+
+  async setQuizRole(grant: QuizRoleGrant): Promise<QuizRoleGrant> {
+    const result = await this.db.insert(quizRoles).values(grant)
+      .onConflictDoUpdate({ target: [quizRoles.quizId, quizRoles.userId], set: { role: grant.role } })
+      .returning();
+    return result[0];
+  }
+
+  async removeQuizRole(quizId: number, userId: number): Promise<boolean> {
+    const result = await this.db.delete(quizRoles)
+      .where(and(eq(quizRoles.quizId, quizId), eq(quizRoles.userId, userId)))
+      .returning();
+    return result.length > 0;
+  }
+
+  // Image metadata methods
+  async getImage(hash: string): Promise<ImageMetadata | undefined> {
+    const result = await this.db.select().from(images).where(eq(images.hash, hash));
+    return result[0];
+  }
+
+  async createImage(image: InsertImage): Promise<ImageMetadata> {
+    // The same content uploaded again keeps its first record
+    await this.db.insert(images).values(image).onConflictDoNothing();
+    const stored = await this.getImage(image.hash);
+    return stored!;
+  }
 }
 
 // Use the DB storage in production, MemStorage in development as fallback
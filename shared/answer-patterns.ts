@@ -0,0 +1,20 @@
+/**
+ * Compiles an accepted-answer pattern the way the scorer applies it: matched against the whole answer,
+ * ignoring case, with Unicode escapes. Throws a SyntaxError for patterns that aren't valid under those flags
+ * (e.g. `\-` outside a character class), so validation, the editor and scoring all agree on what is valid
+ */
+export function compileAnswerPattern(pattern: string): RegExp {
+  return new RegExp(`^(?:${pattern})$`, 'iu');
+}
+
+/**
+ * Why a pattern can't be used, or null if it compiles
+ */
+export function getAnswerPatternError(pattern: string): string | null {
+  try {
+    compileAnswerPattern(pattern);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
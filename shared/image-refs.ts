@@ -0,0 +1,44 @@
+import type { Question } from "./schema";
+
+// Prefix of an image stored by content hash, e.g. "image:3a7bd3e2..." - anything else is an inline data URL or link
+const IMAGE_REF_PREFIX = 'image:';
+
+export function toImageRef(hash: string): string {
+  return `${IMAGE_REF_PREFIX}${hash}`;
+}
+
+export function isImageRef(src: string): boolean {
+  return src.startsWith(IMAGE_REF_PREFIX);
+}
+
+/**
+ * The content hash an image reference points to, or null for inline images and links
+ */
+export function getImageHash(src: string): string | null {
+  return isImageRef(src) ? src.slice(IMAGE_REF_PREFIX.length) : null;
+}
+
+/**
+ * Hashes of every stored image the questions use, each once
+ */
+export function collectImageHashes(questions: readonly Question[]): Set<string> {
+  const hashes = new Set<string>();
+  questions.forEach(question => {
+    [...(question.questionImages || []), ...(question.answerImages || [])].forEach(src => {
+      const hash = getImageHash(src);
+      if (hash) hashes.add(hash);
+    });
+  });
+  return hashes;
+}
+
+/**
+ * Rewrites every question and answer image through `map`, e.g. to swap inline images for references
+ */
+export function mapQuestionImages<Q extends Question>(questions: readonly Q[], map: (src: string) => string): Q[] {
+  return questions.map(question => ({
+    ...question,
+    questionImages: (question.questionImages || []).map(map),
+    answerImages: (question.answerImages || []).map(map)
+  }));
+}
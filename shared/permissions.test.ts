@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { canEditQuiz, canManageQuiz, canViewQuiz, getQuizRole, hasQuizRole } from "./permissions";
+
+const member = { id: 2, role: 'user' as const };
+const admin = { id: 9, role: 'admin' as const };
+
+describe("getQuizRole", () => {
+  it("makes the quiz's creator and admins owners, whatever they were granted", () => {
+    expect(getQuizRole(member, { createdBy: 2 }, 'viewer')).toBe('owner');
+    expect(getQuizRole(admin, { createdBy: 2 })).toBe('owner');
+  });
+
+  it("gives anyone else the role they were granted, if any", () => {
+    expect(getQuizRole(member, { createdBy: 1 }, 'editor')).toBe('editor');
+    expect(getQuizRole(member, { createdBy: 1 })).toBeNull();
+    expect(getQuizRole(member, { createdBy: null })).toBeNull();
+  });
+
+  it("gives visitors no role", () => {
+    expect(getQuizRole(null, { createdBy: 1 }, 'owner')).toBeNull();
+  });
+});
+
+describe("hasQuizRole", () => {
+  it("lets higher roles do what lower ones can", () => {
+    expect(hasQuizRole('owner', 'editor')).toBe(true);
+    expect(hasQuizRole('editor', 'viewer')).toBe(true);
+    expect(hasQuizRole('viewer', 'editor')).toBe(false);
+    expect(hasQuizRole(null, 'viewer')).toBe(false);
+  });
+});
+
+describe("quiz permissions", () => {
+  it("shows public quizzes to everyone and private ones to people with a role", () => {
+    expect(canViewQuiz(null, { isPublic: true })).toBe(true);
+    expect(canViewQuiz(null, { isPublic: false })).toBe(false);
+    expect(canViewQuiz('viewer', { isPublic: false })).toBe(true);
+  });
+
+  it("leaves changes to editors and owners, and managing to owners", () => {
+    expect(canEditQuiz('viewer')).toBe(false);
+    expect(canEditQuiz('editor')).toBe(true);
+    expect(canManageQuiz('editor')).toBe(false);
+    expect(canManageQuiz('owner')).toBe(true);
+  });
+});
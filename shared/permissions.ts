@@ -0,0 +1,47 @@
+import type { QuizRole, UserRole } from "./schema";
+
+const ROLE_RANK: Record<QuizRole, number> = { viewer: 1, editor: 2, owner: 3 };
+
+/**
+ * The parts of a user that decide what they can do
+ */
+export type RoleHolder = {
+  id: number;
+  role: UserRole;
+};
+
+/**
+ * A user's role on a quiz: admins and the quiz's creator are owners, anyone else has what they were granted
+ * Returns null when the user has no access beyond what a public quiz gives everyone
+ */
+export function getQuizRole(
+  user: RoleHolder | null | undefined,
+  quiz: { createdBy?: number | null },
+  granted?: QuizRole | null
+): QuizRole | null {
+  if (!user) return null;
+  if (user.role === 'admin' || (quiz.createdBy != null && quiz.createdBy === user.id)) return 'owner';
+  return granted ?? null;
+}
+
+/**
+ * Whether a role includes everything `needed` allows (owners can do what editors can, editors what viewers can)
+ */
+export function hasQuizRole(role: QuizRole | null | undefined, needed: QuizRole): boolean {
+  return !!role && ROLE_RANK[role] >= ROLE_RANK[needed];
+}
+
+export function canViewQuiz(role: QuizRole | null | undefined, quiz: { isPublic?: boolean | null }): boolean {
+  return !!quiz.isPublic || hasQuizRole(role, 'viewer');
+}
+
+export function canEditQuiz(role: QuizRole | null | undefined): boolean {
+  return hasQuizRole(role, 'editor');
+}
+
+/**
+ * Deleting a quiz and deciding who else can see or change it are for owners only
+ */
+export function canManageQuiz(role: QuizRole | null | undefined): boolean {
+  return hasQuizRole(role, 'owner');
+}
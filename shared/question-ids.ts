@@ -0,0 +1,19 @@
+import { v4 as uuidv4 } from "uuid";
+import type { Question } from "./schema";
+
+/**
+ * Gives every question a stable id, keeping the ids questions already have
+ * A repeated id (e.g. the same question copied in twice) is replaced so ids stay unique within the quiz
+ */
+export function ensureQuestionIds<Q extends Question>(questions: readonly Q[]): Q[] {
+  const seen = new Set<string>();
+  return questions.map(question => {
+    if (question.id && !seen.has(question.id)) {
+      seen.add(question.id);
+      return question;
+    }
+    const id = uuidv4();
+    seen.add(id);
+    return { ...question, id };
+  });
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { describeRetakePolicy, describeRetakeStatus, getExamAttempts, getRetakeStatus } from "./retake";
+
+const exam = (date: string) => ({ date: new Date(date), mode: 'exam' as const });
+const practice = (date: string) => ({ date: new Date(date), mode: 'practice' as const });
+
+describe("getExamAttempts", () => {
+  it("leaves out practice runs and keeps attempts without a mode", () => {
+    const untagged = { date: new Date("2025-03-01T09:00:00Z") };
+    expect(getExamAttempts([exam("2025-03-01T10:00:00Z"), practice("2025-03-01T11:00:00Z"), untagged]))
+      .toEqual([exam("2025-03-01T10:00:00Z"), untagged]);
+  });
+});
+
+describe("getRetakeStatus", () => {
+  const now = new Date("2025-03-01T12:00:00Z");
+
+  it("uses a 10 minute cooldown when the quiz sets no policy", () => {
+    expect(getRetakeStatus(undefined, [exam("2025-03-01T11:55:00Z")], null, now)).toEqual({
+      allowed: false,
+      reason: 'cooldown',
+      availableAt: new Date("2025-03-01T12:05:00Z")
+    });
+    expect(getRetakeStatus(undefined, [exam("2025-03-01T11:50:00Z")], null, now)).toEqual({ allowed: true });
+  });
+
+  it("runs the cooldown from lastTaken when there is one", () => {
+    const policy = { type: 'cooldown' as const, minutes: 30 };
+    expect(getRetakeStatus(policy, [exam("2025-03-01T10:00:00Z")], "2025-03-01T11:45:00Z", now)).toMatchObject({
+      allowed: false,
+      availableAt: new Date("2025-03-01T12:15:00Z")
+    });
+  });
+
+  it("doesn't start a cooldown for practice runs", () => {
+    expect(getRetakeStatus({ type: 'cooldown', minutes: 30 }, [practice("2025-03-01T11:59:00Z")], null, now))
+      .toEqual({ allowed: true });
+  });
+
+  it("counts only exams towards an attempt limit", () => {
+    const policy = { type: 'maxAttempts' as const, attempts: 2 };
+    expect(getRetakeStatus(policy, [exam("2025-02-01T10:00:00Z"), practice("2025-02-02T10:00:00Z")], null, now))
+      .toEqual({ allowed: true, attemptsLeft: 1 });
+    expect(getRetakeStatus(policy, [exam("2025-02-01T10:00:00Z"), exam("2025-02-02T10:00:00Z")], null, now))
+      .toEqual({ allowed: false, reason: 'maxAttempts' });
+  });
+
+  it("only allows exams inside a window", () => {
+    const policy = { type: 'window' as const, opensAt: "2025-03-01T13:00:00Z", closesAt: "2025-03-02T13:00:00Z" };
+    expect(getRetakeStatus(policy, [], null, now)).toEqual({
+      allowed: false,
+      reason: 'notOpen',
+      availableAt: new Date("2025-03-01T13:00:00Z")
+    });
+    expect(getRetakeStatus(policy, [], null, new Date("2025-03-01T18:00:00Z"))).toEqual({ allowed: true });
+    expect(getRetakeStatus(policy, [], null, new Date("2025-03-03T00:00:00Z"))).toEqual({ allowed: false, reason: 'closed' });
+  });
+
+  it("allows anything with unlimited retakes", () => {
+    expect(getRetakeStatus({ type: 'unlimited' }, [exam("2025-03-01T11:59:59Z")], null, now)).toEqual({ allowed: true });
+  });
+});
+
+describe("describeRetakeStatus", () => {
+  it("says how many attempts are left", () => {
+    expect(describeRetakeStatus({ allowed: true, attemptsLeft: 1 })).toBe("1 attempt left");
+    expect(describeRetakeStatus({ allowed: true })).toBe("Available now");
+    expect(describeRetakeStatus({ allowed: false, reason: 'maxAttempts' })).toBe("No attempts left");
+  });
+});
+
+describe("describeRetakePolicy", () => {
+  it("summarises each kind of policy", () => {
+    expect(describeRetakePolicy(undefined)).toBe("10 minutes between attempts");
+    expect(describeRetakePolicy({ type: 'cooldown', minutes: 1 })).toBe("1 minute between attempts");
+    expect(describeRetakePolicy({ type: 'maxAttempts', attempts: 3 })).toBe("At most 3 attempts");
+    expect(describeRetakePolicy({ type: 'unlimited' })).toBe("Unlimited retakes");
+  });
+});
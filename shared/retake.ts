@@ -0,0 +1,97 @@
+import type { QuizAttempt, RetakePolicy } from "./schema";
+
+// Used for quizzes that don't set a policy - the cooldown every quiz had before policies existed
+export const DEFAULT_RETAKE_POLICY: RetakePolicy = { type: 'cooldown', minutes: 10 };
+
+export type RetakeStatus =
+  | { allowed: true; attemptsLeft?: number }
+  | { allowed: false; reason: 'cooldown' | 'maxAttempts' | 'notOpen' | 'closed'; availableAt?: Date };
+
+type AttemptLike = Pick<QuizAttempt, 'date' | 'mode'>;
+
+/**
+ * Exam attempts in a quiz's history - practice runs never count towards a retake policy
+ */
+export function getExamAttempts<A extends AttemptLike>(history: readonly A[] = []): A[] {
+  return history.filter(attempt => attempt.mode !== 'practice');
+}
+
+/**
+ * Works out whether a new exam can be started at `now`
+ * `lastTaken` is when the previous exam finished; the latest exam in the history is used without it
+ */
+export function getRetakeStatus(
+  policy: RetakePolicy | undefined,
+  history: readonly AttemptLike[] = [],
+  lastTaken?: Date | string | null,
+  now: Date = new Date()
+): RetakeStatus {
+  const rule = policy || DEFAULT_RETAKE_POLICY;
+  const exams = getExamAttempts(history);
+
+  switch (rule.type) {
+    case 'unlimited':
+      return { allowed: true };
+    case 'cooldown': {
+      const last = lastTaken
+        ? new Date(lastTaken).getTime()
+        : Math.max(...exams.map(attempt => new Date(attempt.date).getTime()), -Infinity);
+      const availableAt = last + rule.minutes * 60 * 1000;
+      return Number.isFinite(last) && now.getTime() < availableAt
+        ? { allowed: false, reason: 'cooldown', availableAt: new Date(availableAt) }
+        : { allowed: true };
+    }
+    case 'maxAttempts':
+      return exams.length < rule.attempts
+        ? { allowed: true, attemptsLeft: rule.attempts - exams.length }
+        : { allowed: false, reason: 'maxAttempts' };
+    case 'window':
+      if (rule.opensAt && now.getTime() < new Date(rule.opensAt).getTime()) {
+        return { allowed: false, reason: 'notOpen', availableAt: new Date(rule.opensAt) };
+      }
+      if (rule.closesAt && now.getTime() > new Date(rule.closesAt).getTime()) {
+        return { allowed: false, reason: 'closed' };
+      }
+      return { allowed: true };
+  }
+}
+
+/**
+ * One-line explanation of a status for learners, e.g. "Next attempt opens 3/4/2025, 10:30:00 AM"
+ */
+export function describeRetakeStatus(status: RetakeStatus): string {
+  if (status.allowed) {
+    if (status.attemptsLeft === undefined) return 'Available now';
+    return `${status.attemptsLeft} ${status.attemptsLeft === 1 ? 'attempt' : 'attempts'} left`;
+  }
+  switch (status.reason) {
+    case 'cooldown':
+      return `Next attempt opens ${status.availableAt?.toLocaleString()}`;
+    case 'notOpen':
+      return `Opens ${status.availableAt?.toLocaleString()}`;
+    case 'maxAttempts':
+      return 'No attempts left';
+    case 'closed':
+      return 'This quiz has closed';
+  }
+}
+
+/**
+ * Short summary of a policy for quiz cards and the editor
+ */
+export function describeRetakePolicy(policy: RetakePolicy | undefined): string {
+  const rule = policy || DEFAULT_RETAKE_POLICY;
+  switch (rule.type) {
+    case 'unlimited':
+      return 'Unlimited retakes';
+    case 'cooldown':
+      return `${rule.minutes} ${rule.minutes === 1 ? 'minute' : 'minutes'} between attempts`;
+    case 'maxAttempts':
+      return `At most ${rule.attempts} ${rule.attempts === 1 ? 'attempt' : 'attempts'}`;
+    case 'window': {
+      const opens = rule.opensAt ? `from ${new Date(rule.opensAt).toLocaleString()}` : '';
+      const closes = rule.closesAt ? `until ${new Date(rule.closesAt).toLocaleString()}` : '';
+      return ['Available', opens, closes].filter(Boolean).join(' ');
+    }
+  }
+}
@@ -1,21 +1,36 @@
-import { pgTable, text, serial, integer, boolean, timestamp, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, primaryKey } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { getAnswerPatternError } from "./answer-patterns";
+
+// Admins can manage every quiz; everyone else gets a role per quiz (see quizRoles)
+export const UserRoleEnum = z.enum(['admin', 'user']);
+export type UserRole = z.infer<typeof UserRoleEnum>;
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
-  password: text("password").notNull(),
+  password: text("password").notNull(), // scrypt hash and salt, never the password itself
+  role: text("role").$type<UserRole>().notNull().default('user'),
 });
 
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
+}).extend({
+  role: UserRoleEnum.optional(),
 });
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
+
 export type User = typeof users.$inferSelect;
 
+// New accounts need a reasonable username and password; logging in only checks both are there
+export const registerUserSchema = z.object({
+  username: z.string().trim().min(3).max(50).regex(/^[\w.-]+$/, "Use letters, numbers, dots, dashes and underscores"),
+  password: z.string().min(8).max(200)
+});
+
 // Quiz categories 
 export const QuizCategoryEnum = z.enum([
   'General Knowledge',
@@ -33,28 +48,288 @@ export const QuizCategorySchema = z.union([
 
 export type QuizCategory = z.infer<typeof QuizCategorySchema>;
 
+// Question kinds - questions without a type are single-answer multiple choice
+export const QuestionTypeEnum = z.enum([
+  'single',
+  'multiple',
+  'numeric',
+  'text',
+  'ordering',
+  'matching',
+  'boolean'
+]);
+
+export type QuestionType = z.infer<typeof QuestionTypeEnum>;
+
+// How "select all that apply" questions award credit for a partially correct selection
+export const PartialCreditModeEnum = z.enum([
+  'all-or-nothing',
+  'proportional',
+  'right-minus-wrong'
+]);
+
+export type PartialCreditMode = z.infer<typeof PartialCreditModeEnum>;
+
+// Expected value for numeric questions
+// Relative tolerance is a percentage of the expected value
+export const NumericAnswerSchema = z.object({
+  value: z.number().finite(),
+  tolerance: z.number().min(0).optional(),
+  toleranceType: z.enum(['absolute', 'relative']).optional(),
+  units: z.array(z.string().min(1)).optional() // Accepted unit spellings, e.g. ["m/s", "mps"]
+});
+
+export type NumericAnswer = z.infer<typeof NumericAnswerSchema>;
+
+// One row of a matching question - learners pair each left item with a right item
+export const MatchPairSchema = z.object({
+  left: z.string(),
+  right: z.string()
+});
+
+export type MatchPair = z.infer<typeof MatchPairSchema>;
+
+// How question and explanation text is written - questions without a format are plain text
+export const TextFormatEnum = z.enum([
+  'plain',
+  'markdown'
+]);
+
+export type TextFormat = z.infer<typeof TextFormatEnum>;
+
 // Define question type
 export const QuestionSchema = z.object({
+  id: z.string().optional(), // Stable identity across edits; backfilled for questions saved before ids existed
+  type: QuestionTypeEnum.optional(),
+  format: TextFormatEnum.optional(), // Applies to `question` and `answerDescription`
   question: z.string(),
   answerDescription: z.string(),
   options: z.array(z.string()),
-  correctAnswer: z.string(),
+  correctAnswer: z.string().default(''),
+  // Multiple-select questions only
+  correctAnswers: z.array(z.string()).optional(),
+  partialCredit: PartialCreditModeEnum.optional(),
+  // Numeric questions only
+  numericAnswer: NumericAnswerSchema.optional(),
+  // Typed-answer questions only - matched ignoring case, spacing and diacritics
+  acceptedAnswers: z.array(z.string()).optional(),
+  acceptedPatterns: z.array(z.string()).optional(), // Regular expressions matched against the whole answer
+  // Matching questions only (ordering questions list their items in the correct order in `options`)
+  pairs: z.array(MatchPairSchema).optional(),
+  points: z.number().positive().optional(), // Weight of the question under the quiz's marking scheme, defaults to 1
+  sectionId: z.string().optional(), // Section of a sectioned quiz; unknown or missing ids fall into the first section
+  timeLimit: z.number().int().positive().optional(), // Seconds; overrides the quiz's per-question limit
+  // Stored image references ("image:<content hash>", see image-refs.ts), or inline data URLs and links
   questionImages: z.array(z.string()),
   answerImages: z.array(z.string())
+}).superRefine((question, ctx) => {
+  if (question.type === 'multiple') {
+    const correctAnswers = question.correctAnswers || [];
+    if (correctAnswers.length === 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['correctAnswers'],
+        message: "Multiple-select questions need at least one correct answer"
+      });
+    }
+    if (correctAnswers.some(answer => !question.options.includes(answer))) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['correctAnswers'],
+        message: "Every correct answer must be one of the options"
+      });
+    }
+  }
+
+  if (question.type === 'boolean' && !['True', 'False'].includes(question.correctAnswer)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['correctAnswer'],
+      message: "True/False questions must have \"True\" or \"False\" as the correct answer"
+    });
+  }
+
+  if (question.type === 'numeric' && !question.numericAnswer) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['numericAnswer'],
+      message: "Numeric questions need an expected value"
+    });
+  }
+
+  if (question.type === 'text') {
+    const acceptedAnswers = (question.acceptedAnswers || []).filter(answer => answer.trim() !== '');
+    const acceptedPatterns = question.acceptedPatterns || [];
+    if (acceptedAnswers.length === 0 && acceptedPatterns.length === 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['acceptedAnswers'],
+        message: "Typed-answer questions need at least one accepted answer or pattern"
+      });
+    }
+    acceptedPatterns.forEach((pattern, index) => {
+      const patternError = getAnswerPatternError(pattern);
+      if (patternError) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['acceptedPatterns', index],
+          message: `Invalid regular expression: ${patternError}`
+        });
+      }
+    });
+  }
+
+  if (question.type === 'ordering') {
+    if (question.options.length < 2 || new Set(question.options).size !== question.options.length) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['options'],
+        message: "Ordering questions need at least two distinct items"
+      });
+    }
+  }
+
+  if (question.type === 'matching') {
+    const pairs = question.pairs || [];
+    if (pairs.length < 2) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['pairs'],
+        message: "Matching questions need at least two pairs"
+      });
+    }
+    if (new Set(pairs.map(pair => pair.left)).size !== pairs.length) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['pairs'],
+        message: "Each left-hand item must be unique"
+      });
+    }
+  }
 });
 
 export type Question = z.infer<typeof QuestionSchema>;
 
+// A learner's answer - a single option, or a set of options for multiple-select questions
+export const AnswerSchema = z.union([z.string(), z.array(z.string())]);
+
+export type Answer = z.infer<typeof AnswerSchema>;
+
+// Per-question outcome recorded with each attempt
+export const QuestionResultSchema = z.object({
+  questionId: z.string().optional(), // Links the result to its question even after the wording changes
+  question: z.string(),
+  format: TextFormatEnum.optional(), // Format of the question text at the time of the attempt
+  options: z.array(z.string()).optional(), // Options in the order they were shown
+  userAnswer: AnswerSchema,
+  correctAnswer: AnswerSchema,
+  isCorrect: z.boolean(),
+  credit: z.number().min(0).max(1).optional(), // Fraction of the question's point earned
+  timeSpent: z.number().min(0).optional() // Seconds on the question, summed over every visit
+});
+
+export type QuestionResult = z.infer<typeof QuestionResultSchema>;
+
+// Score for one section of a sectioned quiz attempt
+export const SectionResultSchema = z.object({
+  sectionId: z.string(),
+  title: z.string(),
+  score: z.number(),
+  totalQuestions: z.number(),
+  weightedScore: z.number().optional(),
+  maxScore: z.number().optional(),
+  timeSpent: z.number()
+});
+
+export type SectionResult = z.infer<typeof SectionResultSchema>;
+
+// Exam attempts count towards scores; practice attempts reveal answers as you go and are kept apart
+export const QuizModeEnum = z.enum([
+  'exam',
+  'practice'
+]);
+
+export type QuizMode = z.infer<typeof QuizModeEnum>;
+
 // Define quiz attempt type
 export const QuizAttemptSchema = z.object({
   date: z.coerce.date(),
   score: z.number(),
   totalQuestions: z.number(),
-  timeSpent: z.number()
+  timeSpent: z.number(),
+  mode: QuizModeEnum.optional(), // Attempts without a mode are exams
+  weightedScore: z.number().optional(), // Points under the quiz's marking scheme (can be negative)
+  maxScore: z.number().optional(), // Best possible weighted score
+  questionOrder: z.array(z.number().int().min(0)).optional(), // Index in the quiz of each question, in the order shown
+  questionResults: z.array(QuestionResultSchema).optional(), // In the order the questions were shown
+  sectionResults: z.array(SectionResultSchema).optional(), // Sectioned quizzes only
+  userId: z.number().int().optional() // Learner who made the attempt, set by the server when it's recorded
 });
 
 export type QuizAttempt = z.infer<typeof QuizAttemptSchema>;
 
+// Spaced-repetition schedule for a question the learner got wrong (SM-2)
+// Cards made before question ids existed find their question by index and text instead
+export const ReviewCardSchema = z.object({
+  questionId: z.string().optional(),
+  questionIndex: z.number().int().min(0),
+  question: z.string(),
+  easeFactor: z.number().min(1.3),
+  interval: z.number().min(0), // Days until the next review
+  repetitions: z.number().int().min(0), // Reviews recalled in a row
+  lapses: z.number().int().min(0), // Times the question was forgotten again
+  due: z.string().datetime(),
+  lastReviewed: z.string().datetime().optional()
+});
+
+export type ReviewCard = z.infer<typeof ReviewCardSchema>;
+
+// Points awarded per question, multiplied by the question's weight
+// e.g. competitive exams often use +4 for a correct answer and -1 for a wrong one
+export const MarkingSchemeSchema = z.object({
+  correct: z.number().positive(),
+  incorrect: z.number().max(0), // Zero or negative - a penalty for wrong answers
+  unanswered: z.number().max(0).optional() // Defaults to zero
+});
+
+export type MarkingScheme = z.infer<typeof MarkingSchemeSchema>;
+
+// When an exam can be taken again; practice runs are never limited
+// Window dates are ISO strings so they survive localStorage and JSON sync unchanged
+export const RetakePolicySchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('unlimited') }),
+  z.object({ type: z.literal('cooldown'), minutes: z.number().int().positive() }),
+  z.object({ type: z.literal('maxAttempts'), attempts: z.number().int().positive() }),
+  z.object({ type: z.literal('window'), opensAt: z.string().datetime().optional(), closesAt: z.string().datetime().optional() })
+]);
+
+export type RetakePolicy = z.infer<typeof RetakePolicySchema>;
+
+// Per-quiz options for how each attempt is put together
+export const QuizSettingsSchema = z.object({
+  marking: MarkingSchemeSchema.optional(), // Defaults to one point per correct answer, no penalty
+  shuffleQuestions: z.boolean().optional(),
+  shuffleOptions: z.boolean().optional(), // Choice questions only; True/False keeps its order
+  anchorLastOption: z.boolean().optional(), // Keep the last option (e.g. "All of the above") in place when shuffling
+  questionCount: z.number().int().positive().optional(), // Draw this many questions at random from the pool
+  questionTimeLimit: z.number().int().positive().optional(), // Seconds per question in exams; moves on when it runs out
+  pauseWhenAway: z.boolean().optional(), // Resumed exams don't count time spent away; by default the clock keeps running
+  retake: RetakePolicySchema.optional() // Defaults to a 10 minute cooldown between exams
+});
+
+export type QuizSettings = z.infer<typeof QuizSettingsSchema>;
+
+// Part of a long quiz (e.g. Reasoning, Maths, GK) with its own instructions and time limit
+// Sections are taken in order; the quiz-wide timer is not used once a quiz has sections
+export const QuizSectionSchema = z.object({
+  id: z.string(),
+  title: z.string().min(1),
+  instructions: z.string().optional(),
+  timer: z.number().int().positive() // Seconds
+});
+
+export type QuizSection = z.infer<typeof QuizSectionSchema>;
+
 // Database table for quizzes
 export const quizzes = pgTable("quizzes", {
   id: serial("id").primaryKey(),
@@ -65,6 +340,9 @@ export const quizzes = pgTable("quizzes", {
   timer: integer("timer").notNull(),
   category: text("category").notNull(), // Using QuizCategory
   history: jsonb("history").$type<QuizAttempt[]>(), // Optional history
+  review: jsonb("review").$type<ReviewCard[]>(), // Review schedule for missed questions
+  settings: jsonb("settings").$type<QuizSettings>(), // Optional attempt settings
+  sections: jsonb("sections").$type<QuizSection[]>(), // Optional sections, in the order they are taken
   createdAt: timestamp("created_at").notNull().defaultNow(),
   lastTaken: timestamp("last_taken"),
   password: text("password"), // Optional password
@@ -80,6 +358,9 @@ export const insertQuizSchema = createInsertSchema(quizzes)
     questions: z.array(QuestionSchema),
     category: QuizCategorySchema,
     history: z.array(QuizAttemptSchema).optional(),
+    settings: QuizSettingsSchema.optional(),
+    sections: z.array(QuizSectionSchema).optional(),
+    review: z.array(ReviewCardSchema).optional(),
   });
 
 export type InsertQuiz = z.infer<typeof insertQuizSchema>;
@@ -90,4 +371,44 @@ export const syncQuizSchema = z.object({
   quizzes: z.array(insertQuizSchema)
 });
 
+// Attempts a learner made on a stored quiz, to add to its history
+export const recordAttemptsSchema = z.object({
+  attempts: z.array(QuizAttemptSchema.omit({ userId: true })).min(1)
+});
+
 export type SyncQuizRequest = z.infer<typeof syncQuizSchema>;
+
+// Uploaded images, stored on disk by the hash of their processed content; this table holds the metadata
+export const images = pgTable("images", {
+  hash: text("hash").primaryKey(), // SHA-256 of the stored file, hex
+  mimeType: text("mime_type").notNull(),
+  size: integer("size").notNull(), // Bytes
+  width: integer("width").notNull(),
+  height: integer("height").notNull(),
+  originalName: text("original_name"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  createdBy: integer("created_by").references(() => users.id)
+});
+
+export const insertImageSchema = createInsertSchema(images);
+
+export type InsertImage = z.infer<typeof insertImageSchema>;
+export type ImageMetadata = typeof images.$inferSelect;
+
+// Owners can do anything with a quiz, including deleting it and sharing it; editors can change it; viewers can open it when it isn't public
+export const QuizRoleEnum = z.enum(['owner', 'editor', 'viewer']);
+export type QuizRole = z.infer<typeof QuizRoleEnum>;
+
+// Roles granted on a quiz; whoever created a quiz (quizzes.createdBy) is its owner without a row here
+export const quizRoles = pgTable("quiz_roles", {
+  quizId: integer("quiz_id").notNull().references(() => quizzes.id, { onDelete: "cascade" }),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  role: text("role").$type<QuizRole>().notNull()
+}, (table) => [primaryKey({ columns: [table.quizId, table.userId] })]);
+
+export type QuizRoleGrant = typeof quizRoles.$inferSelect;
+
+export const grantQuizRoleSchema = z.object({
+  username: z.string().trim().min(1),
+  role: QuizRoleEnum
+});
@@ -0,0 +1,19 @@
+import { defineConfig } from "vitest/config";
+import path, { dirname } from "path";
+import { fileURLToPath } from "url";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+// Unit tests sit next to the module they cover; vite.config.ts is rooted in client/, so the aliases are repeated here
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, "client", "src"),
+      "@shared": path.resolve(__dirname, "shared"),
+    },
+  },
+  test: {
+    include: ["client/src/**/*.test.ts", "shared/**/*.test.ts", "server/**/*.test.ts"],
+  },
+});